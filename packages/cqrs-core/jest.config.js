@@ -23,6 +23,7 @@ module.exports = {
 	moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
 	moduleNameMapper: {
 		'^@tmasterd/cqrs-core(.*)$': '<rootDir>/src$1',
+		'^@tmasterd/result(.*)$': '<rootDir>/../result/src$1',
 		// If this package needs to import other monorepo packages by alias,
 		// you'd typically also map them here, relative to this package's rootDir.
 		// Example if cqrs-core imports cqrs-demo:
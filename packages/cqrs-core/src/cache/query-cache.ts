@@ -0,0 +1,196 @@
+import { Injectable, Singleton, Inject, SkipInterceptors } from '../decorators/ioc-handler';
+import {
+	CacheQueryOptions,
+	IDomainEvent,
+	IDomainEventHandler,
+	IEventDispatcher,
+	IQuery,
+	IQueryCache,
+	IQueryPipelineBehavior,
+	QueryCacheEntry,
+	QueryPipelineContext,
+	ServiceConstructor,
+} from '../types';
+import { EVENT_DISPATCHER_TOKEN, QUERY_CACHE_TOKEN } from '../tokens';
+import { getMetadata } from '../metadata/metadata-store';
+
+/**
+ * The default IQueryCache: keeps results in memory and evicts the least recently used entry
+ * once `maxEntries` results are cached.
+ */
+export class InMemoryQueryCache implements IQueryCache {
+	// Entries in order of use, least recently used first
+	private entries = new Map<string, { value: unknown; expiresAt?: number }>();
+
+	/**
+	 * @param maxEntries The maximum number of cached results (default: 1000).
+	 */
+	constructor(private readonly maxEntries = 1000) {}
+
+	/**
+	 * Retrieves a cached result and marks it as the most recently used.
+	 * @param key The cache key.
+	 * @returns The entry, or undefined if it is missing or expired.
+	 */
+	get(key: string): QueryCacheEntry | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+		this.entries.delete(key);
+		if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+			return undefined;
+		}
+		this.entries.set(key, entry);
+		return { value: entry.value };
+	}
+
+	/**
+	 * Caches a result, evicting the least recently used entry if the cache is full.
+	 * @param key The cache key.
+	 * @param value The result.
+	 * @param ttlMs How long the result is cached; until it is invalidated when omitted.
+	 */
+	set(key: string, value: unknown, ttlMs?: number): void {
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs });
+		if (this.entries.size > this.maxEntries) {
+			this.entries.delete(this.entries.keys().next().value as string);
+		}
+	}
+
+	/**
+	 * Drops every entry whose key starts with the prefix, e.g. every result of a query.
+	 * @param prefix The start of the keys.
+	 */
+	deleteByPrefix(prefix: string): void {
+		for (const key of [...this.entries.keys()]) {
+			if (key.startsWith(prefix)) {
+				this.entries.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Drops every entry.
+	 */
+	clear(): void {
+		this.entries.clear();
+	}
+
+	/**
+	 * The number of cached results, expired ones included until they are read.
+	 */
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+/**
+ * Drops the cached results of queries decorated with @InvalidatedBy when one of their events is dispatched.
+ * It registers itself with the EventDispatcher as the handler of those events once a result of the query is cached.
+ */
+@Injectable()
+@Singleton()
+@SkipInterceptors()
+export class QueryCacheInvalidator implements IDomainEventHandler<IDomainEvent> {
+	// Names of the queries whose results are dropped, by the name of the event invalidating them
+	private invalidations = new Map<string, Set<string>>();
+	// How many times the results of each query were dropped, by the name of the query
+	private generations = new Map<string, number>();
+
+	/**
+	 * @param cache The cache of the application.
+	 * @param eventDispatcher The dispatcher the invalidating events are published through.
+	 */
+	constructor(
+		@Inject(QUERY_CACHE_TOKEN) private cache: IQueryCache,
+		@Inject(EVENT_DISPATCHER_TOKEN) private eventDispatcher: IEventDispatcher
+	) {}
+
+	/**
+	 * Subscribes to the events invalidating the results of a query, as declared with @InvalidatedBy.
+	 * @param queryClass The class of the query.
+	 * @param queryName The name the results of the query are cached under.
+	 */
+	watch(queryClass: ServiceConstructor<IQuery<unknown>>, queryName: string): void {
+		const eventNames: string[] = getMetadata('cqrs:invalidated-by', queryClass) || [];
+		for (const eventName of eventNames) {
+			const queryNames = this.invalidations.get(eventName);
+			if (queryNames) {
+				queryNames.add(queryName);
+				continue;
+			}
+			this.invalidations.set(eventName, new Set([queryName]));
+			this.eventDispatcher.registerHandler(eventName, QueryCacheInvalidator);
+		}
+	}
+
+	/**
+	 * Counts how many times the results of a query were dropped, so a result computed meanwhile is not cached.
+	 * @param queryName The name the results of the query are cached under.
+	 * @returns The invalidation generation of the query.
+	 */
+	generation(queryName: string): number {
+		return this.generations.get(queryName) ?? 0;
+	}
+
+	/**
+	 * Drops the cached results of the queries invalidated by an event.
+	 * @param event The dispatched event.
+	 */
+	async handle(event: IDomainEvent): Promise<void> {
+		for (const queryName of this.invalidations.get(event.constructor.name) || []) {
+			this.generations.set(queryName, this.generation(queryName) + 1);
+			await this.cache.deleteByPrefix(`${queryName}:`);
+		}
+	}
+}
+
+/**
+ * The query pipeline behavior caching the results of queries decorated with @CacheQuery.
+ * Tmick runs it outside the other query behaviors, so a cached result skips the whole pipeline.
+ */
+@Injectable()
+@Singleton()
+@SkipInterceptors()
+export class QueryCacheBehavior implements IQueryPipelineBehavior {
+	/**
+	 * @param cache The cache of the application.
+	 * @param invalidator Drops the cached results when the events invalidating them are dispatched.
+	 */
+	constructor(
+		@Inject(QUERY_CACHE_TOKEN) private cache: IQueryCache,
+		@Inject(QueryCacheInvalidator) private invalidator: QueryCacheInvalidator
+	) {}
+
+	/**
+	 * Returns the cached result of a query, or runs the rest of the pipeline and caches its result.
+	 * @param query The dispatched query.
+	 * @param next Runs the rest of the pipeline.
+	 * @param context The name of the query and its handler.
+	 * @returns The result of the query.
+	 */
+	async handle(query: IQuery<unknown>, next: () => Promise<unknown>, context: QueryPipelineContext): Promise<unknown> {
+		const queryClass = query.constructor as ServiceConstructor<IQuery<unknown>>;
+		const options: CacheQueryOptions | undefined = getMetadata('cqrs:cache-query', queryClass);
+		if (!options) {
+			return next();
+		}
+
+		this.invalidator.watch(queryClass, context.queryName);
+		const key = `${context.queryName}:${options.key ? options.key(query) : JSON.stringify(query)}`;
+		const entry = await this.cache.get(key);
+		if (entry) {
+			return entry.value;
+		}
+
+		const generation = this.invalidator.generation(context.queryName);
+		const result = await next();
+		// An invalidating event dispatched while the handler ran may have made the result stale
+		if (this.invalidator.generation(context.queryName) === generation) {
+			await this.cache.set(key, result, options.ttlMs);
+		}
+		return result;
+	}
+}
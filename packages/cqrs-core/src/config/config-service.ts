@@ -0,0 +1,274 @@
+/* eslint-disable indent */
+import { existsSync, readFileSync } from 'fs';
+import { ConfigIssue, ConfigOptions, ConfigProperty, ConfigSchema } from '../types';
+import { ConfigValidationError } from '../ioc/errors';
+
+/**
+ * Returns the identifier a configuration section or value is registered under, e.g. `'config:database.url'`.
+ * This is what @Config and @InjectConfig inject; it can also be passed to `get()` or `@Inject()`.
+ * @param path The dotted path of the section or value.
+ * @returns The identifier.
+ */
+export function configToken(path: string): string {
+	return `config:${path}`;
+}
+
+/**
+ * Holds the configuration of an application, merged from the defaults of its schema, `defaults`,
+ * JSON files and environment variables, each layer overriding the previous ones.
+ * Tmick registers it under the ConfigService class and each section and value under `configToken(path)`,
+ * and checks it against the schema when the application is initialized.
+ */
+export class ConfigService<TConfig extends object = Record<string, unknown>> {
+	/**
+	 * @param values The merged configuration.
+	 * @param schema The declared configuration, used by `validate()`.
+	 */
+	constructor(
+		private readonly values: TConfig,
+		private readonly schema: ConfigSchema = {}
+	) {}
+
+	/**
+	 * Loads the configuration from the sources listed in the options. Environment variables are named after the
+	 * path of the value they override: segments are upper snake case and joined by `__`, after the prefix, e.g.
+	 * `APP_DATABASE__POOL_SIZE` for `database.poolSize`. The environment is only read when `envPrefix` is set,
+	 * so variables such as PATH or HOME never override values like `path` or `home`. Only values declared in the
+	 * schema or set by another source can be overridden, and they are converted to the declared type (or the type
+	 * of the value they replace).
+	 * @param options The schema and the sources of the configuration.
+	 * @returns The configuration; it is not validated yet.
+	 * @throws Error if a JSON file cannot be parsed.
+	 */
+	static load<TConfig extends object = Record<string, unknown>>(options: ConfigOptions = {}): ConfigService<TConfig> {
+		const schema = options.schema || {};
+		let values = merge(getSchemaDefaults(schema), options.defaults || {});
+
+		for (const file of options.files || []) {
+			if (!existsSync(file)) {
+				continue;
+			}
+			try {
+				values = merge(values, JSON.parse(readFileSync(file, 'utf8')));
+			} catch (error) {
+				throw new Error(`Cannot parse config file '${file}': ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+
+		if (options.env !== false && options.envPrefix) {
+			const env = options.env ?? process.env;
+			const properties = getSchemaProperties(schema);
+			for (const path of new Set([...properties.keys(), ...getPaths(values).filter((path) => !isPlainObject(getPath(values, path)))])) {
+				const envName = options.envPrefix + path.split('.').map(toEnvSegment).join('__');
+				const raw = env[envName];
+				if (raw !== undefined) {
+					values = merge(values, toObject(path, convert(raw, properties.get(path)?.type ?? typeOf(getPath(values, path)))));
+				}
+			}
+		}
+
+		return new ConfigService<TConfig>(values as TConfig, schema);
+	}
+
+	/**
+	 * Retrieves a configuration value or section.
+	 * @param path The dotted path of the value, e.g. 'database.url'.
+	 * @returns The value, or undefined if it is not set.
+	 */
+	get<T = unknown>(path: string): T {
+		return getPath(this.values, path) as T;
+	}
+
+	/**
+	 * Retrieves a top-level section of the configuration, typed after the configuration.
+	 * @param name The name of the section, e.g. 'database'.
+	 * @returns The section, or undefined if it is not set.
+	 */
+	getSection<K extends keyof TConfig & string>(name: K): TConfig[K] {
+		return this.values[name];
+	}
+
+	/**
+	 * Checks whether a configuration value or section is set.
+	 * @param path The dotted path of the value.
+	 * @returns True if the value is set.
+	 */
+	has(path: string): boolean {
+		return this.get(path) !== undefined;
+	}
+
+	/**
+	 * Lists the paths of every section and value declared in the schema or set by a source.
+	 * @returns The dotted paths, sections before their values.
+	 */
+	getPaths(): string[] {
+		return [...new Set([...getPaths(this.schema, (entry) => !isConfigProperty(entry)), ...getPaths(this.values)])];
+	}
+
+	/**
+	 * Checks the configuration against its schema: required values must be set, and values must have the
+	 * declared type, be one of the allowed values and pass the custom checks.
+	 * @throws ConfigValidationError listing every issue found.
+	 */
+	validate(): void {
+		const issues: ConfigIssue[] = [];
+		this.collectIssues(this.schema, '', issues);
+		if (issues.length > 0) {
+			throw new ConfigValidationError(issues);
+		}
+	}
+
+	/**
+	 * Checks the values of a section of the schema, recursing into nested sections.
+	 */
+	private collectIssues(schema: ConfigSchema, prefix: string, issues: ConfigIssue[]): void {
+		for (const [key, entry] of Object.entries(schema)) {
+			const path = prefix ? `${prefix}.${key}` : key;
+			const value = this.get(path);
+
+			if (!isConfigProperty(entry)) {
+				if (value !== undefined && !isPlainObject(value)) {
+					issues.push({ path, message: `must be a section, got ${JSON.stringify(value)}` });
+				} else {
+					this.collectIssues(entry, path, issues);
+				}
+				continue;
+			}
+
+			if (value === undefined) {
+				if (!entry.optional) {
+					issues.push({ path, message: 'is required' });
+				}
+				continue;
+			}
+			if (typeOf(value) !== entry.type) {
+				issues.push({ path, message: `must be a ${entry.type}, got ${JSON.stringify(value)}` });
+				continue;
+			}
+			if (entry.enum && !entry.enum.includes(value)) {
+				issues.push({ path, message: `must be one of ${entry.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}, got ${JSON.stringify(value)}` });
+				continue;
+			}
+			const result = entry.validate ? entry.validate(value) : true;
+			if (result !== true) {
+				issues.push({ path, message: typeof result === 'string' ? result : 'is invalid' });
+			}
+		}
+	}
+}
+
+/**
+ * Whether a schema entry declares a value rather than a nested section.
+ */
+function isConfigProperty(entry: unknown): entry is ConfigProperty {
+	return isPlainObject(entry) && typeof entry.type === 'string';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Helper to get the schema type of a value.
+ */
+function typeOf(value: unknown): ConfigProperty['type'] | undefined {
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+	if (value === null) {
+		return undefined;
+	}
+	return ['string', 'number', 'boolean', 'object'].includes(typeof value) ? (typeof value as ConfigProperty['type']) : undefined;
+}
+
+/**
+ * Deep-merges plain objects, `override` taking precedence; arrays and other values are replaced.
+ */
+function merge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+	const merged = { ...base };
+	for (const [key, value] of Object.entries(override)) {
+		const current = merged[key];
+		merged[key] = isPlainObject(value) && isPlainObject(current) ? merge(current, value) : value;
+	}
+	return merged;
+}
+
+function getPath(values: object, path: string): unknown {
+	return path.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), values);
+}
+
+/**
+ * Helper to build the object setting a single value, to be merged into the configuration.
+ */
+function toObject(path: string, value: unknown): Record<string, unknown> {
+	return path
+		.split('.')
+		.reverse()
+		.reduce<unknown>((nested, key) => ({ [key]: nested }), value) as Record<string, unknown>;
+}
+
+/**
+ * Lists the dotted paths of an object, parents before their children, descending into the entries accepted by `descend`.
+ */
+function getPaths(values: object, descend: (value: unknown) => boolean = isPlainObject, prefix = ''): string[] {
+	return Object.entries(values).flatMap(([key, value]) => {
+		const path = prefix ? `${prefix}.${key}` : key;
+		return descend(value) ? [path, ...getPaths(value as object, descend, path)] : [path];
+	});
+}
+
+/**
+ * Collects the properties declared by a schema, keyed by their dotted path.
+ */
+function getSchemaProperties(schema: ConfigSchema): Map<string, ConfigProperty> {
+	const properties = new Map<string, ConfigProperty>();
+	for (const path of getPaths(schema, (entry) => !isConfigProperty(entry))) {
+		const entry = getPath(schema, path);
+		if (isConfigProperty(entry)) {
+			properties.set(path, entry);
+		}
+	}
+	return properties;
+}
+
+function getSchemaDefaults(schema: ConfigSchema): Record<string, unknown> {
+	let defaults: Record<string, unknown> = {};
+	getSchemaProperties(schema).forEach((property, path) => {
+		if (property.default !== undefined) {
+			defaults = merge(defaults, toObject(path, property.default));
+		}
+	});
+	return defaults;
+}
+
+/**
+ * Helper to name the segment of an environment variable after a path segment, e.g. `poolSize` -> `POOL_SIZE`.
+ */
+function toEnvSegment(segment: string): string {
+	return segment
+		.replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+		.replace(/[^A-Za-z0-9]/g, '_')
+		.toUpperCase();
+}
+
+/**
+ * Converts an environment variable to the type of the value it overrides. Values that cannot be
+ * converted are kept as they are, so that `validate()` reports them.
+ */
+function convert(raw: string, type: ConfigProperty['type'] | undefined): unknown {
+	switch (type) {
+		case 'number':
+			return raw.trim() === '' || Number.isNaN(Number(raw)) ? raw : Number(raw);
+		case 'boolean':
+			return raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : raw;
+		case 'array':
+		case 'object':
+			try {
+				return JSON.parse(raw);
+			} catch {
+				return raw;
+			}
+		default:
+			return raw;
+	}
+}
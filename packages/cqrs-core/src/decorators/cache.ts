@@ -0,0 +1,27 @@
+import { CacheQueryOptions, IDomainEvent, IQuery, ServiceConstructor } from '../types';
+import { defineMetadata, getOwnMetadata } from '../metadata/metadata-store';
+
+/**
+ * Decorator for query classes caching the results of their handler, e.g. for hot read models.
+ * Results are cached per query name and key in the IQueryCache of the application; failed queries are not cached.
+ *
+ * @param options Optional `ttlMs` limiting how long a result is cached, and `key` deriving the cache key from the query.
+ */
+export function CacheQuery<TQuery extends IQuery<unknown>>(options: CacheQueryOptions<TQuery> = {}) {
+	return function (target: ServiceConstructor<TQuery>) {
+		defineMetadata('cqrs:cache-query', options, target);
+	};
+}
+
+/**
+ * Decorator for cached query classes dropping every cached result of the query when one of
+ * the events is dispatched, e.g. `@InvalidatedBy(NoteCreatedEvent, NoteUpdatedEvent)`.
+ *
+ * @param eventClasses The classes of the events invalidating the results.
+ */
+export function InvalidatedBy(...eventClasses: ServiceConstructor<IDomainEvent>[]) {
+	return function (target: ServiceConstructor<IQuery<unknown>>) {
+		const existing: string[] = getOwnMetadata('cqrs:invalidated-by', target) || [];
+		defineMetadata('cqrs:invalidated-by', [...existing, ...eventClasses.map((eventClass) => eventClass.name)], target);
+	};
+}
@@ -0,0 +1,23 @@
+import { configToken } from '../config/config-service';
+import { Inject } from './ioc-handler';
+
+/**
+ * Decorator for constructor parameters and properties injecting a section of the configuration,
+ * e.g. `@InjectConfig('database') database: DatabaseConfig`. The application must be created with
+ * a `config`, see `TmickOptions`.
+ *
+ * @param section The name (or dotted path) of the section.
+ */
+export function InjectConfig(section: string) {
+	return Config(section);
+}
+
+/**
+ * Decorator for constructor parameters and properties injecting a single configuration value,
+ * e.g. `@Config('database.url') url: string`. The application must be created with a `config`, see `TmickOptions`.
+ *
+ * @param path The dotted path of the value.
+ */
+export function Config(path: string) {
+	return Inject(configToken(path));
+}
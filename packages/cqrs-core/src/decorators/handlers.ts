@@ -1,6 +1,7 @@
-import { ServiceConstructor, ICommand, IQuery, IDomainEvent } from '../types';
+import { ServiceConstructor, ServiceIdentifier, ICommand, IQuery, IDomainEvent, HandlerMetadata, ICommandPipelineBehavior, RetryPolicy } from '../types';
 import { HandlerRegistry } from '../registry/handler-registry';
 import { Injectable } from './ioc-handler';
+import { defineMetadata, getOwnMetadata, hasMetadata } from '../metadata/metadata-store';
 
 /**
  * Decorator to register a class as a Command Handler.
@@ -11,11 +12,12 @@ import { Injectable } from './ioc-handler';
 export function CommandHandler(commandClass: ServiceConstructor<ICommand>) {
 	return function (target: ServiceConstructor<any>) {
 		const commandName = commandClass.name;
-		HandlerRegistry.register(target, commandName, 'command');
+		defineHandlerMetadata(target, { targetType: commandName, handlerType: 'command' });
+		HandlerRegistry.registerServiceClass(target);
 
-		// Ensure handler classes are also registered for auto-scanning by Tmick
+		// Ensure handler classes are also injectable
 		// This is important because @Injectable is not explicitly used on the handler itself
-		if (!Reflect.hasMetadata('cqrs:injectable-service', target)) {
+		if (!hasMetadata('cqrs:injectable-service', target)) {
 			// Apply a default @Injectable behavior (defaulting to singleton)
 			Injectable()(target);
 		}
@@ -31,10 +33,11 @@ export function CommandHandler(commandClass: ServiceConstructor<ICommand>) {
 export function QueryHandler(queryClass: ServiceConstructor<IQuery<any>>) {
 	return function (target: ServiceConstructor<any>) {
 		const queryName = queryClass.name;
-		HandlerRegistry.register(target, queryName, 'query');
+		defineHandlerMetadata(target, { targetType: queryName, handlerType: 'query' });
+		HandlerRegistry.registerServiceClass(target);
 
-		// Ensure handler classes are also registered for auto-scanning by Tmick
-		if (!Reflect.hasMetadata('cqrs:injectable-service', target)) {
+		// Ensure handler classes are also injectable
+		if (!hasMetadata('cqrs:injectable-service', target)) {
 			Injectable()(target);
 		}
 	};
@@ -49,11 +52,48 @@ export function QueryHandler(queryClass: ServiceConstructor<IQuery<any>>) {
 export function EventHandler(eventClass: ServiceConstructor<IDomainEvent>) {
 	return function (target: ServiceConstructor<any>) {
 		const eventName = eventClass.name;
-		HandlerRegistry.register(target, eventName, 'event');
+		defineHandlerMetadata(target, { targetType: eventName, handlerType: 'event' });
+		HandlerRegistry.registerServiceClass(target);
 
-		// Ensure handler classes are also registered for auto-scanning by Tmick
-		if (!Reflect.hasMetadata('cqrs:injectable-service', target)) {
+		// Ensure handler classes are also injectable
+		if (!hasMetadata('cqrs:injectable-service', target)) {
 			Injectable()(target);
 		}
 	};
 }
+
+/**
+ * Decorator for command handlers running their commands through pipeline behaviors, e.g. for
+ * validation or transactions, inside the global behaviors registered with `Tmick.useCommandPipeline()`.
+ * Behaviors are resolved from the scope of each dispatch, so they must be @Injectable or registered.
+ *
+ * @param behaviors The identifiers of the behaviors, outermost first.
+ */
+export function UsePipeline(...behaviors: ServiceIdentifier<ICommandPipelineBehavior>[]) {
+	return function (target: ServiceConstructor<any>) {
+		const existing: ServiceIdentifier<ICommandPipelineBehavior>[] = getOwnMetadata('cqrs:pipeline', target) || [];
+		defineMetadata('cqrs:pipeline', [...behaviors, ...existing], target);
+	};
+}
+
+/**
+ * Decorator for command and event handlers retrying transient failures, e.g. lock timeouts, replacing the
+ * default policy of `Tmick.useRetryPolicy()`: `@Retry({ attempts: 3, backoff: 'exponential', retryOn: [LockTimeoutError] })`.
+ * Each attempt runs the command pipeline again; handlers receive the attempt as the second argument of `handle()`.
+ *
+ * @param policy The number of attempts, the backoff between them and the errors worth retrying.
+ */
+export function Retry(policy: RetryPolicy) {
+	return function (target: ServiceConstructor<any>) {
+		defineMetadata('cqrs:retry', policy, target);
+	};
+}
+
+/**
+ * Records what a handler class handles. The handler registry of each application reads it
+ * when the class is scanned or listed, so decorating a class registers nothing by itself.
+ */
+function defineHandlerMetadata(target: ServiceConstructor<any>, metadata: HandlerMetadata) {
+	const existing: HandlerMetadata[] = getOwnMetadata('cqrs:handlers', target) || [];
+	defineMetadata('cqrs:handlers', [...existing, metadata], target);
+}
@@ -1,23 +1,43 @@
-import { ServiceConstructor, ServiceIdentifier, InjectableOptions } from '../types';
+import {
+	ServiceConstructor,
+	ServiceIdentifier,
+	ServiceDependency,
+	InjectableOptions,
+	InjectOptions,
+	PropertyDependency,
+	ConditionPredicate,
+	IInterceptor,
+	StandardDecoratorContext,
+	isDependencyDescriptor,
+} from '../types';
 import { HandlerRegistry } from '../registry/handler-registry';
+import { defineMetadata, getMetadata, getOwnMetadata, getDecoratorMetadataObject, isStandardDecoratorContext } from '../metadata/metadata-store';
 
 /**
  * Decorator to mark a class as a service that can be injected.
  * Optionally accepts a ServiceIdentifier to register the service under a specific ID.
  * If no ID is provided, the class constructor itself is used as the identifier.
- * It also registers the class with HandlerRegistry for auto-scanning by Tmick.
- * Lifecycle (singleton/transient) is determined by @Singleton/@Transient decorators.
+ * It also adds the class to the classes discovered for auto-scanning by Tmick.
+ * Lifecycle (singleton/transient/scoped) is determined by @Singleton/@Transient/@Scoped decorators.
+ * Like every Tmick decorator, it works both as a legacy (`experimentalDecorators`) and a standard decorator.
  *
  * @param optionsOrIdentifier An optional ServiceIdentifier or InjectableOptions object.
  */
 export function Injectable(optionsOrIdentifier: ServiceIdentifier<any> | InjectableOptions = {}) {
 	return function <T extends ServiceConstructor<any>>(constructor: T) {
 		let identifier: ServiceIdentifier<any>;
+		let multi = false;
+		let name: string | undefined;
 
 		if (typeof optionsOrIdentifier === 'object' && optionsOrIdentifier !== null && !('prototype' in optionsOrIdentifier)) {
 			// It's an InjectableOptions object
 			const opts = optionsOrIdentifier as InjectableOptions;
 			identifier = opts.id || constructor;
+			multi = opts.multi === true;
+			name = opts.name;
+			if (opts.deps) {
+				defineMetadata('cqrs:class-dependencies', opts.deps, constructor);
+			}
 		} else {
 			// It's a ServiceIdentifier or empty object, use it directly or fallback to constructor
 			identifier = (optionsOrIdentifier as ServiceIdentifier<any>) || constructor;
@@ -25,22 +45,29 @@ export function Injectable(optionsOrIdentifier: ServiceIdentifier<any> | Injecta
 
 		// Default to singleton if no explicit lifecycle decorator is applied
 		let singleton = true;
-		const lifecycleMetadata = Reflect.getMetadata('cqrs:lifecycle', constructor);
+		let scoped = false;
+		const lifecycleMetadata = getMetadata<{ singleton: boolean; scoped?: boolean }>('cqrs:lifecycle', constructor);
 		if (lifecycleMetadata !== undefined && lifecycleMetadata.singleton !== undefined) {
 			singleton = lifecycleMetadata.singleton;
 		}
+		if (lifecycleMetadata !== undefined && lifecycleMetadata.scoped !== undefined) {
+			scoped = lifecycleMetadata.scoped;
+		}
 
 		// Define metadata that Tmick's autoScanAndRegisters will use
-		Reflect.defineMetadata(
+		defineMetadata(
 			'cqrs:injectable-service', // Metadata key for auto-registration
 			{
 				id: identifier,
 				singleton: singleton,
+				scoped: scoped,
+				multi: multi,
+				name: name,
 			},
 			constructor
 		);
 
-		// Register this class with HandlerRegistry so Tmick can discover it for auto-registration
+		// Add this class to the discovered classes so Tmick can scan it for auto-registration
 		HandlerRegistry.registerServiceClass(constructor);
 
 		return constructor;
@@ -54,7 +81,7 @@ export function Injectable(optionsOrIdentifier: ServiceIdentifier<any> | Injecta
  */
 export function Singleton() {
 	return function <T extends ServiceConstructor<any>>(constructor: T) {
-		Reflect.defineMetadata('cqrs:lifecycle', { singleton: true }, constructor);
+		defineMetadata('cqrs:lifecycle', { singleton: true }, constructor);
 	};
 }
 
@@ -64,7 +91,109 @@ export function Singleton() {
  */
 export function Transient() {
 	return function <T extends ServiceConstructor<any>>(constructor: T) {
-		Reflect.defineMetadata('cqrs:lifecycle', { singleton: false }, constructor);
+		defineMetadata('cqrs:lifecycle', { singleton: false }, constructor);
+	};
+}
+
+/**
+ * Decorator to mark an injectable service as scoped (one instance per scope).
+ * Scopes are created with `createScope()` on the container or on Tmick, e.g. once per HTTP request.
+ * Should be used in conjunction with @Injectable.
+ */
+export function Scoped() {
+	return function <T extends ServiceConstructor<any>>(constructor: T) {
+		defineMetadata('cqrs:lifecycle', { singleton: false, scoped: true }, constructor);
+	};
+}
+
+/**
+ * Method decorator marking the method to call once an instance has been constructed
+ * and its dependencies injected. The method may return a Promise, in which case the
+ * service must be resolved asynchronously (`getAsync()` or `Tmick.initializeAsync()`).
+ */
+export function PostConstruct() {
+	return function (target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext) {
+		const member = getDecoratedMember(target, contextOrPropertyKey);
+		defineMetadata('cqrs:post-construct', member.propertyKey, getDecoratedClass(target, contextOrPropertyKey));
+	};
+}
+
+/**
+ * Method decorator marking the method to call when the container that created the instance
+ * is disposed (e.g. to close sockets or clear timers). The method may return a Promise.
+ *
+ * @param options Optional `timeoutMs` overriding the container's default disposal timeout for this service.
+ */
+export function PreDestroy(options: { timeoutMs?: number } = {}) {
+	return function (target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext) {
+		const member = getDecoratedMember(target, contextOrPropertyKey);
+		defineMetadata('cqrs:pre-destroy', { methodName: member.propertyKey, timeoutMs: options.timeoutMs }, getDecoratedClass(target, contextOrPropertyKey));
+	};
+}
+
+/**
+ * Class or method decorator wrapping the methods of a service with interceptors, e.g. for logging or timing.
+ * On a class it applies to every method; on a method to that method only, inside the class interceptors.
+ * Interceptors are resolved from the container, so they must be @Injectable or registered.
+ *
+ * @param interceptors The identifiers of the interceptors, outermost first.
+ */
+export function UseInterceptors(...interceptors: ServiceIdentifier<IInterceptor>[]) {
+	return function (target: unknown, contextOrPropertyKey?: string | symbol | StandardDecoratorContext) {
+		// Class interceptors are stored on the constructor, method interceptors on the prototype under the method name
+		const member = getDecoratedMember(target, contextOrPropertyKey);
+		const existing: ServiceIdentifier<IInterceptor>[] = getOwnMetadata('cqrs:interceptors', member.target, member.propertyKey) || [];
+		defineMetadata('cqrs:interceptors', [...interceptors, ...existing], member.target, member.propertyKey);
+	};
+}
+
+/**
+ * Class or method decorator excluding a service, or one of its methods, from the global
+ * interceptors registered with `Tmick.useGlobalInterceptors()`. @UseInterceptors still apply.
+ */
+export function SkipInterceptors() {
+	return function (target: unknown, contextOrPropertyKey?: string | symbol | StandardDecoratorContext) {
+		const member = getDecoratedMember(target, contextOrPropertyKey);
+		defineMetadata('cqrs:skip-interceptors', true, member.target, member.propertyKey);
+	};
+}
+
+/**
+ * Class decorator tagging a service so that it can be retrieved together with the other
+ * services carrying the same tag via `getTagged(tag)`, e.g. every 'audit' logger.
+ *
+ * @param tags One or more tags.
+ */
+export function Tag(...tags: string[]) {
+	return function <T extends ServiceConstructor<any>>(constructor: T) {
+		const existing: string[] = getOwnMetadata('cqrs:tags', constructor) || [];
+		defineMetadata('cqrs:tags', [...existing, ...tags], constructor);
+	};
+}
+
+/**
+ * Class decorator restricting auto-scanning to applications where one of the profiles is active,
+ * e.g. `@Profile('test')` on an in-memory fake and `@Profile('prod')` on the real adapter.
+ * A profile prefixed with `!` matches when that profile is not active.
+ *
+ * @param profiles One or more profile names.
+ */
+export function Profile(...profiles: string[]) {
+	return function <T extends ServiceConstructor<any>>(constructor: T) {
+		defineMetadata('cqrs:profiles', profiles, constructor);
+	};
+}
+
+/**
+ * Class decorator restricting auto-scanning to applications for which the predicate returns true,
+ * e.g. `@ConditionalOn(() => process.env.TRACING === 'on')`. Several conditions must all hold.
+ *
+ * @param predicate Receives the active profiles and decides whether the class is scanned.
+ */
+export function ConditionalOn(predicate: ConditionPredicate) {
+	return function <T extends ServiceConstructor<any>>(constructor: T) {
+		const existing: ConditionPredicate[] = getOwnMetadata('cqrs:conditions', constructor) || [];
+		defineMetadata('cqrs:conditions', [...existing, predicate], constructor);
 	};
 }
 
@@ -72,17 +201,130 @@ export function Transient() {
  * Decorator for constructor parameters to explicitly define a dependency.
  * This is used when TypeScript's emit decorator metadata isn't sufficient
  * (e.g., for interface tokens, primitives, or when explicit control is desired).
+ * Standard decorators cannot decorate parameters: on a property it behaves like @InjectProperty,
+ * and constructor dependencies are declared with `@Injectable({ deps })`.
  *
- * @param identifier The ServiceIdentifier of the dependency to inject.
+ * @param identifier The ServiceIdentifier of the dependency to inject, or a DependencyDescriptor.
+ * @param options Optional `optional` flag and `default` value used when the dependency is not registered.
  */
-export function Inject(identifier: ServiceIdentifier<any>) {
-	return function (target: any, propertyKey: string | symbol | undefined, parameterIndex: number) {
-		const existingDeps = Reflect.getMetadata('cqrs:param-dependencies', target) || [];
-		if (existingDeps.length <= parameterIndex) {
-			existingDeps.length = parameterIndex + 1; // Ensure array size can accommodate index
+export function Inject(identifier: ServiceDependency, options?: InjectOptions) {
+	return function (target: unknown, contextOrPropertyKey: string | symbol | undefined | StandardDecoratorContext, parameterIndex?: number) {
+		if (typeof parameterIndex === 'number') {
+			defineParamDependency(target as object, parameterIndex, withInjectOptions(identifier, options));
+		} else {
+			definePropertyDependency(target, contextOrPropertyKey as string | symbol | StandardDecoratorContext, withInjectOptions(identifier, options));
 		}
+	};
+}
+
+/**
+ * Decorator for constructor parameters marking an `@Inject` dependency as lazy: a proxy is injected
+ * and the dependency is resolved the first time it is used. Equivalent to `@Inject(lazy(identifier))`.
+ * Lazy dependencies defer expensive construction and allow two services to reference each other.
+ */
+export function Lazy() {
+	return function (target: object, propertyKey: string | symbol | undefined, parameterIndex: number) {
+		const lazyParams: number[] = getMetadata('cqrs:lazy-params', target) || [];
+		defineMetadata('cqrs:lazy-params', [...lazyParams, parameterIndex], target);
+	};
+}
+
+/**
+ * Decorator for constructor parameters marking an `@Inject` dependency as optional:
+ * `undefined` is injected instead of failing when it is not registered.
+ * Use `@Inject(identifier, { optional: true, default })` to inject a fallback value instead.
+ */
+export function Optional() {
+	return function (target: object, propertyKey: string | symbol | undefined, parameterIndex: number) {
+		const optionalParams: number[] = getMetadata('cqrs:optional-params', target) || [];
+		defineMetadata('cqrs:optional-params', [...optionalParams, parameterIndex], target);
+	};
+}
+
+/**
+ * Decorator for properties and setters to inject a dependency after the service is constructed,
+ * before its @PostConstruct hook runs. Decorated properties are inherited by subclasses,
+ * so base classes can declare their dependencies without constructor parameters.
+ *
+ * @param identifier The ServiceIdentifier of the dependency to inject, or a DependencyDescriptor.
+ * @param options Optional `optional` flag and `default` value used when the dependency is not registered.
+ */
+export function InjectProperty(identifier: ServiceDependency, options?: InjectOptions) {
+	return function (target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext) {
+		definePropertyDependency(target, contextOrPropertyKey, withInjectOptions(identifier, options));
+	};
+}
+
+/**
+ * Decorator for constructor parameters (or properties) injecting an array of every implementation
+ * registered under the identifier (see `registerMany` and `@Injectable({ id, multi: true })`).
+ *
+ * @param identifier The identifier shared by the implementations.
+ */
+export function InjectAll(identifier: ServiceIdentifier<any>) {
+	return Inject({ identifier, multi: true });
+}
+
+/**
+ * Combines a dependency with the options passed to @Inject or @InjectProperty.
+ */
+function withInjectOptions(identifier: ServiceDependency, options?: InjectOptions): ServiceDependency {
+	if (!options) {
+		return identifier;
+	}
 
-		existingDeps[parameterIndex] = identifier;
-		Reflect.defineMetadata('cqrs:param-dependencies', existingDeps, target);
+	const descriptor = isDependencyDescriptor(identifier) ? identifier : { identifier };
+	return {
+		...descriptor,
+		optional: options.optional ?? descriptor.optional,
+		defaultValue: options.default ?? descriptor.defaultValue,
+		name: options.name ?? descriptor.name,
 	};
 }
+
+/**
+ * Records the dependency of a constructor parameter in the class metadata.
+ */
+function defineParamDependency(target: object, parameterIndex: number, dependency: ServiceDependency) {
+	const existingDeps: ServiceDependency[] = getMetadata('cqrs:param-dependencies', target) || [];
+	if (existingDeps.length <= parameterIndex) {
+		existingDeps.length = parameterIndex + 1; // Ensure array size can accommodate index
+	}
+
+	existingDeps[parameterIndex] = dependency;
+	defineMetadata('cqrs:param-dependencies', existingDeps, target);
+}
+
+/**
+ * Records the dependency of a property in the class metadata.
+ */
+function definePropertyDependency(target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext, dependency: ServiceDependency) {
+	const { propertyKey } = getDecoratedMember(target, contextOrPropertyKey);
+	const decoratedClass = getDecoratedClass(target, contextOrPropertyKey);
+
+	// Own metadata only: inherited properties are collected from the prototype chain on resolution
+	const existing: PropertyDependency[] = getOwnMetadata('cqrs:property-dependencies', decoratedClass) || [];
+	defineMetadata('cqrs:property-dependencies', [...existing, { propertyKey, dependency }], decoratedClass);
+}
+
+/**
+ * Resolves where a decorator records metadata about the decorated class or member: legacy decorators
+ * receive the class (or its prototype and the member name), standard decorators of a member only
+ * receive the metadata object of the class, which is read along with the class.
+ */
+function getDecoratedMember(target: unknown, contextOrPropertyKey?: string | symbol | StandardDecoratorContext): { target: object; propertyKey?: string | symbol } {
+	if (!isStandardDecoratorContext(contextOrPropertyKey)) {
+		return { target: target as object, propertyKey: contextOrPropertyKey };
+	}
+	if (contextOrPropertyKey.kind === 'class') {
+		return { target: target as object };
+	}
+	return { target: getDecoratorMetadataObject(contextOrPropertyKey), propertyKey: contextOrPropertyKey.name };
+}
+
+/**
+ * Resolves where a member decorator records metadata about its class, e.g. which method is the @PostConstruct hook.
+ */
+function getDecoratedClass(target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext): object {
+	return isStandardDecoratorContext(contextOrPropertyKey) ? getDecoratorMetadataObject(contextOrPropertyKey) : (target as object).constructor;
+}
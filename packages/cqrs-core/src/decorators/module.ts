@@ -0,0 +1,16 @@
+import { ModuleOptions, ServiceConstructor } from '../types';
+import { defineMetadata } from '../metadata/metadata-store';
+
+/**
+ * Decorator to mark a class as a module: a unit of encapsulation, typically a bounded context.
+ * Its providers are private unless listed in `exports`, and can only inject providers of their own
+ * module, exports of imported modules and services registered directly on the Tmick application.
+ * Load the module tree with `Tmick.create(RootModule)`.
+ *
+ * @param options The providers, handlers, imports and exports of the module.
+ */
+export function Module(options: ModuleOptions = {}) {
+	return function <T extends ServiceConstructor<any>>(constructor: T) {
+		defineMetadata('cqrs:module', options, constructor);
+	};
+}
@@ -0,0 +1,94 @@
+import { StandardDecoratorContext, ValidationRule, ValidatorFn } from '../types';
+import { defineMetadata, getDecoratorMetadataObject, getOwnMetadata, isStandardDecoratorContext } from '../metadata/metadata-store';
+
+/**
+ * Property decorator for commands and queries requiring a value: `undefined`, `null` and empty strings are rejected.
+ * The other validation decorators skip missing values, so combine them with @Required when the value is mandatory.
+ *
+ * @param message Optional description of the issue (default: 'is required').
+ */
+export function Required(message?: string) {
+	return validationDecorator((value) => (value !== undefined && value !== null && value !== '') || 'is required', message);
+}
+
+/**
+ * Property decorator for commands and queries limiting the length of a string or array.
+ *
+ * @param max The maximum length.
+ * @param message Optional description of the issue.
+ */
+export function MaxLength(max: number, message?: string) {
+	return validationDecorator((value) => {
+		if (value === undefined || value === null) {
+			return true;
+		}
+		if (Array.isArray(value)) {
+			return value.length <= max || `must have at most ${max} items`;
+		}
+		return (typeof value === 'string' && value.length <= max) || `must be at most ${max} characters long`;
+	}, message);
+}
+
+/**
+ * Property decorator for commands and queries requiring a string to match a pattern, e.g. `@Matches(/^[a-z-]+$/)`.
+ *
+ * @param pattern The regular expression the value must match.
+ * @param message Optional description of the issue.
+ */
+export function Matches(pattern: RegExp, message?: string) {
+	return validationDecorator((value) => {
+		if (value === undefined || value === null) {
+			return true;
+		}
+		pattern.lastIndex = 0;
+		return (typeof value === 'string' && pattern.test(value)) || `must match ${pattern}`;
+	}, message);
+}
+
+/**
+ * Property decorator for commands and queries checking the rules of the object held by the property,
+ * or of each object of an array. Issues are reported with the path of the nested property, e.g. 'items[0].name'.
+ */
+export function ValidateNested() {
+	return function (target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext) {
+		defineValidationRule(target, contextOrPropertyKey, { nested: true });
+	};
+}
+
+/**
+ * Property decorator for commands and queries checking the value with a custom rule, e.g.
+ * `@Validate((end, command) => end > command.start, 'must be after the start')`.
+ * Unlike the built-in rules, it also runs for missing values.
+ *
+ * @param validator Returns true if the value is valid, and false or a description of the issue otherwise.
+ * @param message Optional description of the issue, replacing the one returned by the validator.
+ */
+export function Validate<TValue = any, TMessage = any>(validator: ValidatorFn<TValue, TMessage>, message?: string) {
+	return validationDecorator(validator, message);
+}
+
+/**
+ * Creates a property decorator recording a validation rule.
+ */
+function validationDecorator(validate: ValidatorFn, message?: string) {
+	return function (target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext) {
+		defineValidationRule(target, contextOrPropertyKey, { validate, message });
+	};
+}
+
+/**
+ * Records a validation rule on the class of the decorated property: legacy decorators receive its prototype,
+ * standard decorators the metadata object of the class.
+ */
+function defineValidationRule(target: unknown, contextOrPropertyKey: string | symbol | StandardDecoratorContext, rule: Omit<ValidationRule, 'propertyKey'>) {
+	const standard = isStandardDecoratorContext(contextOrPropertyKey);
+	const decoratedClass = standard ? getDecoratorMetadataObject(contextOrPropertyKey) : (target as object).constructor;
+	const propertyKey = standard ? (contextOrPropertyKey.name as string | symbol) : contextOrPropertyKey;
+
+	// Own metadata only: the rules of base classes are collected from the prototype chain on validation.
+	// Decorators of a property run from the bottom up, so each rule goes before those already recorded for it.
+	const rules: ValidationRule[] = [...(getOwnMetadata<ValidationRule[]>('cqrs:validation', decoratedClass) || [])];
+	const index = rules.findIndex((existing) => existing.propertyKey === propertyKey);
+	rules.splice(index === -1 ? rules.length : index, 0, { ...rule, propertyKey });
+	defineMetadata('cqrs:validation', rules, decoratedClass);
+}
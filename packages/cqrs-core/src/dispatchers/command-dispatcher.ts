@@ -1,16 +1,43 @@
-import { Injectable, Singleton, Inject } from '../decorators/ioc-handler';
-import { ICommandDispatcher, ICommand, IServiceContainer, ICommandHandler, ServiceIdentifier } from '../types';
+import { ApiResult } from '@tmasterd/result';
+import { Injectable, Singleton, Inject, SkipInterceptors } from '../decorators/ioc-handler';
+import {
+	ICommandDispatcher,
+	ICommand,
+	IServiceContainer,
+	ICommandHandler,
+	ServiceIdentifier,
+	ServiceConstructor,
+	ErrorMapper,
+	ICommandPipelineBehavior,
+	CommandPipelineContext,
+	RetryPolicy,
+	RetryObserver,
+} from '../types';
 import { ISERVICECONTAINER_TOKEN } from '../tokens';
+import { getMetadata } from '../metadata/metadata-store';
+import { assertValid } from '../validation/validator';
+import { toApiResult } from '../results/result-mapping';
+import { runWithRetry } from '../retry/retry-policy';
 
 /**
  * Implements the Command Dispatcher, responsible for routing commands to their registered handlers.
- * Marked as @Injectable and @Singleton for dependency injection.
+ * Marked as @Injectable and @Singleton for dependency injection, and skipped by global interceptors,
+ * which apply to the handlers it dispatches to.
  */
 @Injectable()
 @Singleton()
+@SkipInterceptors()
 export class CommandDispatcher implements ICommandDispatcher {
-	// Maps command names (strings) to their handler ServiceIdentifiers
-	private handlers = new Map<string, ServiceIdentifier<any>>();
+	// Maps command names (strings) to their handler ServiceIdentifiers and the container resolving them
+	private handlers = new Map<string, { identifier: ServiceIdentifier<unknown>; container: IServiceContainer }>();
+	// Behaviors wrapping every command, outside those declared by the handlers with @UsePipeline
+	private behaviors: ServiceIdentifier<ICommandPipelineBehavior>[] = [];
+	// Turn the errors of `tryDispatch()` into failures, tried in order
+	private errorMappers: ErrorMapper[] = [];
+	// Retries the handlers that do not declare their own policy with @Retry
+	private retryPolicy?: RetryPolicy;
+	// Notified of every attempt of a handler
+	private retryObservers: RetryObserver[] = [];
 
 	/**
 	 * Constructs a CommandDispatcher, injecting the IServiceContainer to resolve handlers.
@@ -22,30 +49,119 @@ export class CommandDispatcher implements ICommandDispatcher {
 	 * Registers a handler for a specific command type.
 	 * @param commandName The string name of the command (typically `CommandClass.name`).
 	 * @param handlerIdentifier The ServiceIdentifier of the command handler class.
+	 * @param container The container resolving the handler, e.g. that of its module (default: the dispatcher's container).
 	 * @throws Error if a handler is already registered for the given command.
 	 */
-	registerHandler(commandName: string, handlerIdentifier: ServiceIdentifier<any>): void {
+	registerHandler(commandName: string, handlerIdentifier: ServiceIdentifier<unknown>, container: IServiceContainer = this.container): void {
 		if (this.handlers.has(commandName)) {
 			throw new Error(`Command handler for '${commandName}' already registered.`);
 		}
-		this.handlers.set(commandName, handlerIdentifier);
+		this.handlers.set(commandName, { identifier: handlerIdentifier, container });
 	}
 
 	/**
-	 * Dispatches a command to its registered handler.
+	 * Registers behaviors wrapping the handling of every command, outside the behaviors
+	 * declared by the handlers with @UsePipeline.
+	 * @param behaviors The identifiers of the behaviors, outermost first.
+	 */
+	addBehaviors(...behaviors: ServiceIdentifier<ICommandPipelineBehavior>[]): void {
+		this.behaviors.push(...behaviors);
+	}
+
+	/**
+	 * Registers mappers turning the errors of `tryDispatch()` into failures, e.g. domain errors into `notFound`.
+	 * @param mappers The error mappers, tried in order before the default mapping.
+	 */
+	addErrorMappers(...mappers: ErrorMapper[]): void {
+		this.errorMappers.push(...mappers);
+	}
+
+	/**
+	 * Sets the retry policy of the handlers that do not declare their own with @Retry.
+	 * @param policy The default retry policy, or undefined to stop retrying.
+	 */
+	setRetryPolicy(policy: RetryPolicy | undefined): void {
+		this.retryPolicy = policy;
+	}
+
+	/**
+	 * Registers observers notified of every attempt of a handler, e.g. to log or count retries.
+	 * @param observers The retry observers.
+	 */
+	addRetryObservers(...observers: RetryObserver[]): void {
+		this.retryObservers.push(...observers);
+	}
+
+	/**
+	 * Validates a command and dispatches it to its registered handler, through the command pipeline:
+	 * the global behaviors first, then those the handler declares with @UsePipeline.
+	 * Each dispatch runs in its own container scope, so scoped dependencies of the handler
+	 * (and of the behaviors) are shared for the duration of a single command execution, retries included.
+	 * Failed attempts are retried as the @Retry policy of the handler (or the default policy) allows,
+	 * running the whole pipeline again.
 	 * @param command The command object to dispatch.
 	 * @throws Error if no handler is registered for the command.
+	 * @throws ValidationError if the command breaks the rules declared with the validation decorators.
 	 */
 	async dispatch<T extends ICommand, TResult>(command: T): Promise<TResult> {
 		const commandName = command.constructor.name;
-		const handlerIdentifier = this.handlers.get(commandName);
+		const registration = this.handlers.get(commandName);
 
-		if (!handlerIdentifier) {
+		if (!registration) {
 			throw new Error(`No handler registered for command '${commandName}'.`);
 		}
+		assertValid(command);
+
+		// Resolve the handler instance and its behaviors from a per-command scope and run the pipeline
+		const scope = registration.container.createScope();
+		try {
+			const handler = scope.get<ICommandHandler<T, TResult>>(registration.identifier);
+			const handlerClass = (typeof registration.identifier === 'function' ? registration.identifier : handler.constructor) as ServiceConstructor<unknown>;
+			const identifiers: ServiceIdentifier<ICommandPipelineBehavior>[] = [
+				...this.behaviors,
+				...(getMetadata<ServiceIdentifier<ICommandPipelineBehavior>[]>('cqrs:pipeline', handlerClass) || []),
+			];
+			const behaviors = identifiers.map((identifier) => scope.get<ICommandPipelineBehavior<T, TResult>>(identifier));
+			const metadata = { targetType: commandName, handlerType: 'command' as const };
+			const policy: RetryPolicy | undefined = getMetadata('cqrs:retry', handlerClass) ?? this.retryPolicy;
+
+			return await runWithRetry(
+				policy,
+				(retry) => {
+					const context: CommandPipelineContext<T> = { command, commandName, handlerClass, handler, metadata, retry };
+					const invoke = (index: number): Promise<TResult> =>
+						index === behaviors.length ? handler.handle(command, retry) : behaviors[index].handle(command, () => invoke(index + 1), context);
+					return invoke(0);
+				},
+				this.retryObservers,
+				{ handlerClass, metadata }
+			);
+		} finally {
+			await this.disposeScope(scope, commandName);
+		}
+	}
+
+	/**
+	 * Disposes the scope of a command. A failure is logged rather than thrown,
+	 * so it never replaces the result or the error of the handler.
+	 * @param scope The scope the handler and the behaviors were resolved from.
+	 * @param commandName The name of the dispatched command.
+	 */
+	private async disposeScope(scope: IServiceContainer, commandName: string): Promise<void> {
+		try {
+			await scope.dispose();
+		} catch (error) {
+			console.error(`Failed to dispose the scope of command '${commandName}':`, error);
+		}
+	}
 
-		// Resolve the handler instance from the container and execute its handle method
-		const handler = this.container.get<ICommandHandler<T, TResult>>(handlerIdentifier);
-		return await handler.handle(command);
+	/**
+	 * Dispatches a command like `dispatch()`, but never throws: the outcome is returned as an ApiResult,
+	 * an `ok` success holding the result of the handler, or the failure the error was mapped to.
+	 * @param command The command object to dispatch.
+	 * @returns A Promise that resolves with the result.
+	 */
+	async tryDispatch<T extends ICommand, TResult>(command: T): Promise<ApiResult<TResult, unknown>> {
+		return toApiResult(command, () => this.dispatch<T, TResult>(command), this.errorMappers);
 	}
 }
@@ -1,17 +1,25 @@
-import { Injectable, Singleton, Inject } from '../decorators/ioc-handler';
-import { IEventDispatcher, IDomainEvent, IServiceContainer, IDomainEventHandler, ServiceIdentifier } from '../types';
+import { Injectable, Singleton, Inject, SkipInterceptors } from '../decorators/ioc-handler';
+import { IEventDispatcher, IDomainEvent, IServiceContainer, IDomainEventHandler, ServiceIdentifier, ServiceConstructor, RetryPolicy, RetryObserver } from '../types';
 import { ISERVICECONTAINER_TOKEN } from '../tokens';
+import { getMetadata } from '../metadata/metadata-store';
+import { runWithRetry } from '../retry/retry-policy';
 
 /**
  * Implements the Event Dispatcher, responsible for publishing domain events to their registered handlers.
  * Supports multiple handlers per event type.
- * Marked as @Injectable and @Singleton for dependency injection.
+ * Marked as @Injectable and @Singleton for dependency injection, and skipped by global interceptors,
+ * which apply to the handlers it dispatches to.
  */
 @Injectable()
 @Singleton()
+@SkipInterceptors()
 export class EventDispatcher implements IEventDispatcher {
-	// Maps event names (strings) to an array of their handler ServiceIdentifiers
-	private handlers = new Map<string, ServiceIdentifier<any>[]>();
+	// Maps event names (strings) to an array of their handler ServiceIdentifiers and the containers resolving them
+	private handlers = new Map<string, { identifier: ServiceIdentifier<unknown>; container: IServiceContainer }[]>();
+	// Retries the handlers that do not declare their own policy with @Retry
+	private retryPolicy?: RetryPolicy;
+	// Notified of every attempt of a handler
+	private retryObservers: RetryObserver[] = [];
 
 	/**
 	 * Constructs an EventDispatcher, injecting the IServiceContainer to resolve handlers.
@@ -24,29 +32,49 @@ export class EventDispatcher implements IEventDispatcher {
 	 * Multiple handlers can be registered for the same event.
 	 * @param eventName The string name of the event (typically `EventClass.name`).
 	 * @param handlerIdentifier The ServiceIdentifier of the event handler class.
+	 * @param container The container resolving the handler, e.g. that of its module (default: the dispatcher's container).
 	 */
-	registerHandler(eventName: string, handlerIdentifier: ServiceIdentifier<any>): void {
+	registerHandler(eventName: string, handlerIdentifier: ServiceIdentifier<unknown>, container: IServiceContainer = this.container): void {
 		const existingHandlers = this.handlers.get(eventName) || [];
-		existingHandlers.push(handlerIdentifier);
+		existingHandlers.push({ identifier: handlerIdentifier, container });
 		this.handlers.set(eventName, existingHandlers);
 	}
 
+	/**
+	 * Sets the retry policy of the handlers that do not declare their own with @Retry.
+	 * @param policy The default retry policy, or undefined to stop retrying.
+	 */
+	setRetryPolicy(policy: RetryPolicy | undefined): void {
+		this.retryPolicy = policy;
+	}
+
+	/**
+	 * Registers observers notified of every attempt of a handler, e.g. to log or count retries.
+	 * @param observers The retry observers.
+	 */
+	addRetryObservers(...observers: RetryObserver[]): void {
+		this.retryObservers.push(...observers);
+	}
+
 	/**
 	 * Dispatches a list of domain events to all their registered handlers.
 	 * Each event is processed in order, and all handlers for a given event
-	 * are executed concurrently.
+	 * are executed concurrently. Each handler is retried on its own, as its
+	 * @Retry policy (or the default policy) allows.
 	 * @param events An array of domain event objects to dispatch.
 	 */
 	async dispatch(events: IDomainEvent[]): Promise<void> {
 		for (const event of events) {
 			const eventName = event.constructor.name;
-			const handlerIdentifiers = this.handlers.get(eventName) || [];
+			const registrations = this.handlers.get(eventName) || [];
 
 			// Execute all handlers for the current event concurrently
-			const promises = handlerIdentifiers.map(async (identifier) => {
+			const promises = registrations.map(async ({ identifier, container }) => {
 				// Resolve the handler instance from the container and execute its handle method
-				const handler = this.container.get<IDomainEventHandler<typeof event>>(identifier);
-				return handler.handle(event);
+				const handler = container.get<IDomainEventHandler<typeof event>>(identifier);
+				const handlerClass = (typeof identifier === 'function' ? identifier : handler.constructor) as ServiceConstructor<unknown>;
+				const policy: RetryPolicy | undefined = getMetadata('cqrs:retry', handlerClass) ?? this.retryPolicy;
+				return runWithRetry(policy, (retry) => handler.handle(event, retry), this.retryObservers, { handlerClass, metadata: { targetType: eventName, handlerType: 'event' } });
 			});
 
 			// Wait for all handlers for the current event to complete
@@ -1,16 +1,25 @@
-import { Injectable, Singleton, Inject } from '../decorators/ioc-handler';
-import { IQueryDispatcher, IQuery, IServiceContainer, IQueryHandler, ServiceIdentifier } from '../types';
+import { ApiResult } from '@tmasterd/result';
+import { Injectable, Singleton, Inject, SkipInterceptors } from '../decorators/ioc-handler';
+import { IQueryDispatcher, IQuery, IServiceContainer, IQueryHandler, ServiceIdentifier, ServiceConstructor, ErrorMapper, IQueryPipelineBehavior, QueryPipelineContext } from '../types';
 import { ISERVICECONTAINER_TOKEN } from '../tokens';
+import { assertValid } from '../validation/validator';
+import { toApiResult } from '../results/result-mapping';
 
 /**
  * Implements the Query Dispatcher, responsible for routing queries to their registered handlers.
- * Marked as @Injectable and @Singleton for dependency injection.
+ * Marked as @Injectable and @Singleton for dependency injection, and skipped by global interceptors,
+ * which apply to the handlers it dispatches to.
  */
 @Injectable()
 @Singleton()
+@SkipInterceptors()
 export class QueryDispatcher implements IQueryDispatcher {
-	// Maps query names (strings) to their handler ServiceIdentifiers
-	private handlers = new Map<string, ServiceIdentifier<any>>();
+	// Maps query names (strings) to their handler ServiceIdentifiers and the container resolving them
+	private handlers = new Map<string, { identifier: ServiceIdentifier<unknown>; container: IServiceContainer }>();
+	// Behaviors wrapping every query, outermost first
+	private behaviors: ServiceIdentifier<IQueryPipelineBehavior>[] = [];
+	// Turn the errors of `tryDispatch()` into failures, tried in order
+	private errorMappers: ErrorMapper[] = [];
 
 	/**
 	 * Constructs a QueryDispatcher, injecting the IServiceContainer to resolve handlers.
@@ -22,31 +31,85 @@ export class QueryDispatcher implements IQueryDispatcher {
 	 * Registers a handler for a specific query type.
 	 * @param queryName The string name of the query (typically `QueryClass.name`).
 	 * @param handlerIdentifier The ServiceIdentifier of the query handler class.
+	 * @param container The container resolving the handler, e.g. that of its module (default: the dispatcher's container).
 	 * @throws Error if a handler is already registered for the given query.
 	 */
-	registerHandler(queryName: string, handlerIdentifier: ServiceIdentifier<any>): void {
+	registerHandler(queryName: string, handlerIdentifier: ServiceIdentifier<unknown>, container: IServiceContainer = this.container): void {
 		if (this.handlers.has(queryName)) {
 			throw new Error(`Query handler for '${queryName}' already registered.`);
 		}
-		this.handlers.set(queryName, handlerIdentifier);
+		this.handlers.set(queryName, { identifier: handlerIdentifier, container });
 	}
 
 	/**
-	 * Dispatches a query to its registered handler and returns the result.
+	 * Registers behaviors wrapping the handling of every query.
+	 * @param behaviors The identifiers of the behaviors, outermost first.
+	 */
+	addBehaviors(...behaviors: ServiceIdentifier<IQueryPipelineBehavior>[]): void {
+		this.behaviors.push(...behaviors);
+	}
+
+	/**
+	 * Registers mappers turning the errors of `tryDispatch()` into failures, e.g. domain errors into `notFound`.
+	 * @param mappers The error mappers, tried in order before the default mapping.
+	 */
+	addErrorMappers(...mappers: ErrorMapper[]): void {
+		this.errorMappers.push(...mappers);
+	}
+
+	/**
+	 * Validates a query and dispatches it to its registered handler, through the query pipeline, and returns the result.
+	 * Each dispatch runs in its own container scope, so scoped dependencies of the handler
+	 * (and of the behaviors) are shared for the duration of a single query execution.
 	 * @param query The query object to dispatch.
 	 * @returns A Promise that resolves with the result of the query.
 	 * @throws Error if no handler is registered for the query.
+	 * @throws ValidationError if the query breaks the rules declared with the validation decorators.
 	 */
 	async dispatch<TQuery extends IQuery<TResult>, TResult>(query: TQuery): Promise<TResult> {
 		const queryName = query.constructor.name;
-		const handlerIdentifier = this.handlers.get(queryName);
+		const registration = this.handlers.get(queryName);
 
-		if (!handlerIdentifier) {
+		if (!registration) {
 			throw new Error(`No handler registered for query '${queryName}'.`);
 		}
+		assertValid(query);
 
-		// Resolve the handler instance from the container and execute its handle method
-		const handler = this.container.get<IQueryHandler<TQuery, TResult>>(handlerIdentifier);
-		return await handler.handle(query);
+		// Resolve the handler instance and the behaviors from a per-query scope and run the pipeline
+		const scope = registration.container.createScope();
+		try {
+			const handler = scope.get<IQueryHandler<TQuery, TResult>>(registration.identifier);
+			const handlerClass = (typeof registration.identifier === 'function' ? registration.identifier : handler.constructor) as ServiceConstructor<unknown>;
+			const behaviors = this.behaviors.map((identifier) => scope.get<IQueryPipelineBehavior<TQuery, TResult>>(identifier));
+			const context: QueryPipelineContext<TQuery> = { query, queryName, handlerClass, handler, metadata: { targetType: queryName, handlerType: 'query' } };
+			const invoke = (index: number): Promise<TResult> => (index === behaviors.length ? handler.handle(query) : behaviors[index].handle(query, () => invoke(index + 1), context));
+			return await invoke(0);
+		} finally {
+			await this.disposeScope(scope, queryName);
+		}
+	}
+
+	/**
+	 * Disposes the scope of a query. A failure is logged rather than thrown,
+	 * so it never replaces the result or the error of the handler.
+	 * @param scope The scope the handler and the behaviors were resolved from.
+	 * @param queryName The name of the dispatched query.
+	 */
+	private async disposeScope(scope: IServiceContainer, queryName: string): Promise<void> {
+		try {
+			await scope.dispose();
+		} catch (error) {
+			console.error(`Failed to dispose the scope of query '${queryName}':`, error);
+		}
+	}
+
+	/**
+	 * Dispatches a query like `dispatch()`, but never throws: the outcome is returned as an ApiResult,
+	 * an `ok` success holding the result of the handler, or the failure the error was mapped to.
+	 * @param query The query object to dispatch.
+	 * @returns A Promise that resolves with the result.
+	 */
+	async tryDispatch<TQuery extends IQuery<TResult>, TResult>(query: TQuery): Promise<ApiResult<TResult, unknown>> {
+		return toApiResult(query, () => this.dispatch<TQuery, TResult>(query), this.errorMappers);
 	}
 }
@@ -0,0 +1,102 @@
+import { DependencyGraph, DependencyGraphEdge, DependencyGraphNode } from '../types';
+
+/**
+ * Renders a dependency graph in the Graphviz DOT language, e.g. for `dot -Tsvg`.
+ * Services are boxes labelled with their lifetime; commands, queries and events are ellipses.
+ * Lazy and optional dependencies are dashed, and handler edges are labelled "handles".
+ * @param graph The graph returned by `getDependencyGraph()`.
+ * @returns The DOT source.
+ */
+export function toDot(graph: DependencyGraph): string {
+	const lines = ['digraph dependencies {', '\trankdir=LR;'];
+	for (const node of graph.nodes) {
+		const shape = isService(node) ? 'box' : 'ellipse';
+		lines.push(`\t${quoteDot(node.id)} [label="${escapeDot(node.id)}\\n${describeNode(node)}", shape=${shape}];`);
+	}
+	for (const edge of graph.edges) {
+		const attributes: string[] = [];
+		if (edge.kind === 'handles') {
+			attributes.push('label="handles"');
+		}
+		if (edge.lazy || edge.optional) {
+			attributes.push('style=dashed');
+		}
+		lines.push(`\t${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+	}
+	lines.push('}');
+	return lines.join('\n');
+}
+
+/**
+ * Renders a dependency graph as a Mermaid flowchart, e.g. for a Markdown file reviewed in a PR.
+ * Node ids are generated, since identifiers may contain characters Mermaid does not accept.
+ * @param graph The graph returned by `getDependencyGraph()`.
+ * @returns The Mermaid source.
+ */
+export function toMermaid(graph: DependencyGraph): string {
+	const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+	const lines = ['flowchart LR'];
+	for (const node of graph.nodes) {
+		const label = quoteMermaid(`${node.id}<br/>${describeNode(node)}`);
+		lines.push(`\t${ids.get(node.id)}${isService(node) ? `[${label}]` : `([${label}])`}`);
+	}
+	// Dependencies that are not registered have no node of their own
+	const idOf = (nodeId: string): string => {
+		if (!ids.has(nodeId)) {
+			ids.set(nodeId, `n${ids.size}`);
+			lines.push(`\t${ids.get(nodeId)}[${quoteMermaid(nodeId)}]`);
+		}
+		return ids.get(nodeId) as string;
+	};
+	for (const edge of graph.edges) {
+		const from = idOf(edge.from);
+		const to = idOf(edge.to);
+		lines.push(`\t${from} ${mermaidArrow(edge)} ${to}`);
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Renders a dependency graph as indented JSON, e.g. to diff it between two versions.
+ * @param graph The graph returned by `getDependencyGraph()`.
+ * @returns The JSON document.
+ */
+export function toJson(graph: DependencyGraph): string {
+	return JSON.stringify(graph, null, 2);
+}
+
+/**
+ * Whether a node is a service rather than a handled command, query or event.
+ */
+function isService(node: DependencyGraphNode): boolean {
+	return node.kind === 'constructor' || node.kind === 'factory' || node.kind === 'alias' || node.kind === 'instance';
+}
+
+/**
+ * Helper to describe a node below its id, e.g. "singleton constructor" or "command".
+ */
+function describeNode(node: DependencyGraphNode): string {
+	return node.lifetime ? `${node.lifetime} ${node.kind}` : node.kind;
+}
+
+/**
+ * Helper to pick the Mermaid arrow of an edge: dotted for lazy and optional dependencies.
+ */
+function mermaidArrow(edge: DependencyGraphEdge): string {
+	if (edge.kind === 'handles') {
+		return '-- handles -->';
+	}
+	return edge.lazy || edge.optional ? '-.->' : '-->';
+}
+
+function escapeDot(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function quoteDot(value: string): string {
+	return `"${escapeDot(value)}"`;
+}
+
+function quoteMermaid(value: string): string {
+	return `"${value.replace(/"/g, '#quot;')}"`;
+}
@@ -1,6 +1,7 @@
-if (typeof Reflect === 'undefined' || !Reflect?.getMetadata) {
-	throw new Error('Tmick requires a reflect polyfill. Please add \'import "reflect-metadata"\' to the top of your entry point.');
-}
+// Decorators record their metadata through reflect-metadata when it is loaded and in an internal store otherwise,
+// so the polyfill is only needed to inject constructor parameters by their declared type (`emitDecoratorMetadata`).
+// Importing the store first also defines `Symbol.metadata` before any standard decorator runs.
+import './metadata/metadata-store';
 
 // Export all core types
 export * from './types';
@@ -8,16 +9,40 @@ export * from './types';
 // Export IoC related components
 export * from './ioc/custom-container';
 export * from './ioc/service-container';
+export * from './ioc/errors';
+export * from './ioc/lazy';
 
 // Export decorators
-export * from './decorators/ioc-handler'; // This exports Injectable, Singleton, Transient, Inject
-export * from './decorators/handlers'; // This exports CommandHandler, QueryHandler, EventHandler
+export * from './decorators/ioc-handler'; // This exports Injectable, Singleton, Transient, Scoped, Profile, ConditionalOn, Tag, UseInterceptors, SkipInterceptors, Inject, InjectProperty, InjectAll, Optional, Lazy, PostConstruct, PreDestroy
+export * from './decorators/handlers'; // This exports CommandHandler, QueryHandler, EventHandler, UsePipeline, Retry
+export * from './decorators/module'; // This exports Module
+export * from './decorators/config'; // This exports InjectConfig, Config
+export * from './decorators/cache'; // This exports CacheQuery, InvalidatedBy
+export * from './decorators/validation'; // This exports Required, MaxLength, Matches, ValidateNested, Validate
 
 // Export dispatcher implementations (can be resolved from container or used directly)
 export * from './dispatchers/command-dispatcher';
 export * from './dispatchers/query-dispatcher';
 export * from './dispatchers/event-dispatcher';
 
+// Export the validation of commands and queries
+export * from './validation/validator'; // This exports getValidationIssues, assertValid, getValidationRules
+
+// Export the retry policies of command and event handlers
+export * from './retry/retry-policy'; // This exports getRetryDelay, isRetryable, runWithRetry
+
+// Export the mapping of dispatch outcomes to results of @tmasterd/result
+export * from './results/result-mapping'; // This exports mapErrorToFailure, toApiResult
+
+// Export the query cache
+export * from './cache/query-cache'; // This exports InMemoryQueryCache, QueryCacheBehavior, QueryCacheInvalidator
+
+// Export dependency graph exporters
+export * from './graph/exporters'; // This exports toDot, toMermaid, toJson
+
+// Export the configuration subsystem
+export * from './config/config-service'; // This exports ConfigService, configToken
+
 // Export the HandlerRegistry (for advanced use/debugging)
 export * from './registry/handler-registry';
 
@@ -26,3 +51,6 @@ export * from './tokens';
 
 // Export the main framework orchestrator
 export * from './tmick';
+
+// Export testing utilities
+export * from './testing/testing-module';
@@ -1,14 +1,39 @@
 import {
 	ServiceIdentifier,
 	ServiceFactory,
+	AsyncServiceFactory,
 	ServiceConstructor,
 	Token,
 	ICustomContainer,
 	FactoryServiceDescriptor,
+	AsyncFactoryServiceDescriptor,
 	InstanceServiceDescriptor,
 	ConstructorServiceDescriptor,
 	ServiceDescriptor,
+	ServiceDependency,
+	PropertyDependency,
+	DisposeOptions,
+	DependencyDescriptor,
+	DependencyIssue,
+	DependencyGraph,
+	DependencyGraphEdge,
+	ContainerSnapshot,
+	IInterceptor,
+	Provider,
+	FactoryProvider,
+	InjectableMetadata,
+	isDependencyDescriptor,
 } from '../types';
+import { CircularDependencyError, DisposalError, DisposalFailure } from './errors';
+import { createLazyProxy } from './lazy';
+import { applyInterceptors } from './interceptors';
+import { getMetadata, getOwnMetadata, hasMetadata } from '../metadata/metadata-store';
+
+// Time a single service may take to dispose before it is reported as failed
+const DEFAULT_DISPOSE_TIMEOUT_MS = 5000;
+
+// Types emitted in `design:paramtypes` that do not identify a service
+const NON_INJECTABLE_PARAM_TYPES: unknown[] = [Object, String, Number, Boolean, Symbol, BigInt, Array, Function, Promise];
 
 /**
  * Implements the core logic of the IoC container, handling registration and resolution.
@@ -21,11 +46,42 @@ export class CustomContainer implements ICustomContainer {
 	// Cache for singleton instances
 	private instances = new Map<ServiceIdentifier<any>, any>();
 
+	// Implementations registered under a shared identifier with registerMany(), in registration order
+	private multiBindings = new Map<ServiceIdentifier<unknown>, ServiceIdentifier<unknown>[]>();
+
+	// Named implementations of an identifier registered with registerNamed(), by name
+	private namedBindings = new Map<ServiceIdentifier<unknown>, Map<string, ServiceIdentifier<unknown>>>();
+
+	// Services registered from classes decorated with @Tag, by tag
+	private taggedBindings = new Map<string, { identifier: ServiceIdentifier<unknown>; constructor: ServiceConstructor<unknown> }[]>();
+
 	// Maps string names to their actual ServiceIdentifier (Token or Constructor)
 	private stringToIdentifierMap = new Map<string, ServiceIdentifier<any>>();
 
-	// eslint-disable-next-line @typescript-eslint/no-empty-function
-	constructor() {}
+	// Interceptors wrapping the methods of every service this container (or a scope of it) constructs from a class
+	private globalInterceptors: ServiceIdentifier<IInterceptor>[] = [];
+
+	// In-flight async constructions of singleton and scoped services
+	private pendingInstances = new Map<ServiceIdentifier<unknown>, Promise<unknown>>();
+
+	// Singleton and scoped instances created by this container, in creation order
+	private createdInstances: { identifier: ServiceIdentifier<unknown>; instance: unknown }[] = [];
+
+	// Set once the container (typically a scope) has been disposed
+	private disposed = false;
+
+	// Services currently being constructed, outermost first, with the container constructing them.
+	// Shared with ancestor containers so that cycles crossing scope boundaries are detected as well,
+	// while a container may still delegate to another one for the same identifier (e.g. module exports).
+	private resolutionPath: { container: CustomContainer; identifier: ServiceIdentifier<unknown> }[];
+
+	/**
+	 * @param parent The container this one was created from via `createScope()`.
+	 * Scopes inherit every registration of their parent but cache scoped instances locally.
+	 */
+	constructor(private readonly parent?: CustomContainer) {
+		this.resolutionPath = parent ? parent.resolutionPath : [];
+	}
 
 	/**
 	 * Helper to get the canonical identifier. If a string is provided,
@@ -34,12 +90,26 @@ export class CustomContainer implements ICustomContainer {
 	 */
 	public getCanonicalIdentifier<T>(identifier: ServiceIdentifier<T>): ServiceIdentifier<T> {
 		if (typeof identifier === 'string') {
-			return (this.stringToIdentifierMap.get(identifier) as ServiceIdentifier<T>) || identifier;
+			const mapped = this.stringToIdentifierMap.get(identifier) as ServiceIdentifier<T>;
+			if (mapped) {
+				return mapped;
+			}
+			return this.parent ? this.parent.getCanonicalIdentifier(identifier) : identifier;
 		}
 
 		return identifier;
 	}
 
+	/**
+	 * Canonicalizes the identifier of a dependency, keeping any injection options it carries.
+	 */
+	public getCanonicalDependency(dependency: ServiceDependency): ServiceDependency {
+		if (isDependencyDescriptor(dependency)) {
+			return { ...dependency, identifier: this.getCanonicalIdentifier(dependency.identifier) };
+		}
+		return this.getCanonicalIdentifier(dependency);
+	}
+
 	/**
 	 * Ensures a string identifier is mapped to a Token if it's not already
 	 * mapped to a class constructor. This helps in consistent lookup.
@@ -65,8 +135,9 @@ export class CustomContainer implements ICustomContainer {
 	 * @param identifier The unique identifier for the service.
 	 * @param factory The factory function to create the service instance.
 	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 */
-	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton = true): void {
+	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton = true, scoped = false): void {
 		this.addIdentifierMapping(identifier);
 
 		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
@@ -74,7 +145,7 @@ export class CustomContainer implements ICustomContainer {
 			console.warn(`Service '${this.getIdentifierName(identifier)}' already registered. Overwriting.`);
 		}
 
-		this.services.set(canonicalIdentifier, { identifier: canonicalIdentifier, factory, singleton } as FactoryServiceDescriptor<T>);
+		this.services.set(canonicalIdentifier, { identifier: canonicalIdentifier, factory, singleton: singleton && !scoped, scoped } as FactoryServiceDescriptor<T>);
 		this.instances.delete(canonicalIdentifier); // Clear old singleton instance if re-registering
 	}
 
@@ -85,8 +156,9 @@ export class CustomContainer implements ICustomContainer {
 	 * @param constructor The constructor function of the service class.
 	 * @param singleton Whether the service should be a singleton (default: true).
 	 * @param canonicalDependencies Pre-resolved dependencies for the constructor.
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 */
-	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton = true, canonicalDependencies?: ServiceIdentifier[]): void {
+	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton = true, canonicalDependencies?: ServiceDependency[], scoped = false): void {
 		this.addIdentifierMapping(identifier, constructor); // Map string identifier to the constructor
 		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
 
@@ -97,10 +169,48 @@ export class CustomContainer implements ICustomContainer {
 		this.services.set(canonicalIdentifier, {
 			identifier: canonicalIdentifier,
 			constructor,
-			singleton,
+			singleton: singleton && !scoped,
+			scoped,
 			canonicalDependencies, // Store pre-resolved canonical dependencies
 		} as ConstructorServiceDescriptor<T>);
 		this.instances.delete(canonicalIdentifier); // Clear old singleton instance if re-registering
+		this.addTags(canonicalIdentifier, constructor);
+	}
+
+	/**
+	 * Records the service under each tag its class was decorated with via @Tag.
+	 * A class registered under several identifiers is only tagged once.
+	 */
+	private addTags<T>(canonicalIdentifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>): void {
+		const tags: string[] = getMetadata('cqrs:tags', constructor) || [];
+		for (const tag of tags) {
+			const bindings = this.taggedBindings.get(tag) || [];
+			if (!bindings.some((binding) => binding.constructor === constructor)) {
+				bindings.push({ identifier: canonicalIdentifier, constructor });
+			}
+			this.taggedBindings.set(tag, bindings);
+		}
+	}
+
+	/**
+	 * Registers a service using an asynchronous factory function, e.g. one that opens a connection pool.
+	 * The service must be resolved with `getAsync()`, or be initialized with `initializeAsync()`
+	 * before it can be retrieved with `get()`.
+	 * @param identifier The unique identifier for the service.
+	 * @param factory The factory function returning a Promise of the service instance.
+	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
+	 */
+	registerAsyncFactory<T>(identifier: ServiceIdentifier<T>, factory: AsyncServiceFactory<T>, singleton = true, scoped = false): void {
+		this.addIdentifierMapping(identifier);
+
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		if (this.services.has(canonicalIdentifier)) {
+			console.warn(`Service '${this.getIdentifierName(identifier)}' already registered. Overwriting.`);
+		}
+
+		this.services.set(canonicalIdentifier, { identifier: canonicalIdentifier, asyncFactory: factory, singleton: singleton && !scoped, scoped } as AsyncFactoryServiceDescriptor<T>);
+		this.instances.delete(canonicalIdentifier); // Clear old singleton instance if re-registering
 	}
 
 	/**
@@ -120,6 +230,197 @@ export class CustomContainer implements ICustomContainer {
 		this.instances.set(canonicalIdentifier, instance); // Pre-fill instance cache
 	}
 
+	/**
+	 * Registers several implementations under one identifier, e.g. every `IHealthCheck`.
+	 * Each class is also registered under its own constructor (unless it already is),
+	 * with dependencies taken from its decorator metadata.
+	 * Use `getAll()` or @InjectAll to retrieve every implementation.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param constructors The implementation classes, in the order they should be returned.
+	 * @param singleton Whether the implementations should be singletons (default: true).
+	 * @param scoped Whether the implementations should be created once per scope (default: false).
+	 */
+	registerMany<T>(identifier: ServiceIdentifier<T>, constructors: ServiceConstructor<T>[], singleton = true, scoped = false): void {
+		this.addIdentifierMapping(identifier);
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		const bindings = this.multiBindings.get(canonicalIdentifier) || [];
+
+		for (const constructor of constructors) {
+			if (!this.services.has(constructor)) {
+				const canonicalDependencies = this.getMetadataDependencies(constructor).map((dep) => this.getCanonicalDependency(dep));
+				this.registerConstructor(constructor, constructor, singleton, canonicalDependencies, scoped);
+			}
+			if (!bindings.includes(constructor)) {
+				bindings.push(constructor);
+			}
+		}
+
+		this.multiBindings.set(canonicalIdentifier, bindings);
+	}
+
+	/**
+	 * Registers a named implementation of an identifier, e.g. the 'primary' repository.
+	 * Named implementations are also returned by `getAll()`. Use `getNamed()` or
+	 * `@Inject(identifier, { name })` to select one.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param name The name that selects this implementation.
+	 * @param constructor The implementation class.
+	 * @param singleton Whether the implementation should be a singleton (default: true).
+	 * @param scoped Whether the implementation should be created once per scope (default: false).
+	 */
+	registerNamed<T>(identifier: ServiceIdentifier<T>, name: string, constructor: ServiceConstructor<T>, singleton = true, scoped = false): void {
+		this.registerMany(identifier, [constructor], singleton, scoped);
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		const names = this.namedBindings.get(canonicalIdentifier) || new Map<string, ServiceIdentifier<unknown>>();
+		names.set(name, constructor);
+		this.namedBindings.set(canonicalIdentifier, names);
+	}
+
+	/**
+	 * Registers a provider object: a value (`useValue`), a class (`useClass`), a factory whose
+	 * dependencies are declared with `inject` (`useFactory`), or an alias of another service (`useExisting`).
+	 * Unlike factories registered with `registerFactory()`, factory providers never see the container,
+	 * so their dependencies are validated and analyzed like those of a class.
+	 * @param provider The provider object.
+	 * @throws Error if the provider has none of `useValue`, `useClass`, `useFactory` or `useExisting`.
+	 */
+	registerProvider<T>(provider: Provider<T>): void {
+		const { provide } = provider;
+		if ('useValue' in provider) {
+			this.registerInstance(provide, provider.useValue);
+		} else if ('useClass' in provider) {
+			const injectableMetadata = getMetadata<InjectableMetadata>('cqrs:injectable-service', provider.useClass);
+			const canonicalDependencies = this.getMetadataDependencies(provider.useClass).map((dep) => this.getCanonicalDependency(dep));
+			this.registerConstructor(
+				provide,
+				provider.useClass,
+				provider.singleton ?? injectableMetadata?.singleton ?? true,
+				canonicalDependencies,
+				provider.scoped ?? injectableMetadata?.scoped ?? false
+			);
+		} else if ('useFactory' in provider) {
+			this.registerDependentFactory(provide, provider.useFactory, provider.inject || [], provider.singleton ?? true, provider.scoped ?? false, false);
+		} else if ('useExisting' in provider) {
+			// The alias is transient: each resolution returns whatever the aliased service resolves to
+			this.registerDependentFactory(provide, (existing: T) => existing, [provider.useExisting], false, false, true);
+		} else {
+			throw new Error(`Provider for '${this.getIdentifierName((provider as Provider<T>).provide)}' must define useValue, useClass, useFactory or useExisting.`);
+		}
+	}
+
+	/**
+	 * Registers a factory receiving its declared dependencies instead of the container.
+	 */
+	private registerDependentFactory<T>(
+		identifier: ServiceIdentifier<T>,
+		factory: FactoryProvider<T>['useFactory'],
+		dependencies: ServiceDependency[],
+		singleton: boolean,
+		scoped: boolean,
+		alias: boolean
+	): void {
+		this.addIdentifierMapping(identifier);
+
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		if (this.services.has(canonicalIdentifier)) {
+			console.warn(`Service '${this.getIdentifierName(identifier)}' already registered. Overwriting.`);
+		}
+
+		this.services.set(canonicalIdentifier, {
+			identifier: canonicalIdentifier,
+			factory: factory as ServiceFactory<T>,
+			singleton: singleton && !scoped,
+			scoped,
+			canonicalDependencies: dependencies.map((dep) => this.getCanonicalDependency(dep)),
+			alias,
+		} as FactoryServiceDescriptor<T>);
+		this.instances.delete(canonicalIdentifier);
+	}
+
+	/**
+	 * Retrieves the implementation registered under a name for an identifier.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param name The name of the implementation.
+	 * @returns The resolved implementation.
+	 * @throws Error if no implementation is registered under the name.
+	 */
+	getNamed<T>(identifier: ServiceIdentifier<T>, name: string): T {
+		return this.get<T>(this.getNamedIdentifier(identifier, name));
+	}
+
+	/**
+	 * Looks up the identifier of a named implementation in this container and its ancestors.
+	 * @throws Error if no implementation is registered under the name.
+	 */
+	private getNamedIdentifier<T>(identifier: ServiceIdentifier<T>, name: string): ServiceIdentifier<T> {
+		const namedIdentifier = this.findNamedBinding(this.getCanonicalIdentifier(identifier), name);
+		if (!namedIdentifier) {
+			throw new Error(`Service '${this.getIdentifierName(identifier)}' named '${name}' not registered.`);
+		}
+		return namedIdentifier;
+	}
+
+	/**
+	 * Finds a named implementation, preferring registrations of this container over its ancestors.
+	 */
+	private findNamedBinding<T>(canonicalIdentifier: ServiceIdentifier<T>, name: string): ServiceIdentifier<T> | undefined {
+		const namedIdentifier = this.namedBindings.get(canonicalIdentifier)?.get(name);
+		if (namedIdentifier) {
+			return namedIdentifier;
+		}
+		return this.parent ? this.parent.findNamedBinding(canonicalIdentifier, name) : undefined;
+	}
+
+	/**
+	 * Retrieves every service whose class is decorated with the given @Tag, in registration order.
+	 * Scopes include the services tagged on their ancestors.
+	 * @param tag The tag to look up.
+	 * @returns The resolved services; empty if none carry the tag.
+	 */
+	getTagged<T>(tag: string): T[] {
+		return this.findTaggedBindings(tag).map((identifier) => this.get<T>(identifier));
+	}
+
+	/**
+	 * Collects the identifiers of the services carrying a tag from the ancestors of this container and from itself.
+	 */
+	private findTaggedBindings(tag: string): ServiceIdentifier<unknown>[] {
+		const inherited = this.parent ? this.parent.findTaggedBindings(tag) : [];
+		const own = (this.taggedBindings.get(tag) || []).filter((binding) => !inherited.includes(binding.identifier));
+		return [...inherited, ...own.map((binding) => binding.identifier)];
+	}
+
+	/**
+	 * Retrieves every implementation registered under an identifier: the single registration
+	 * made with the other register methods (if any) followed by those added with `registerMany()`.
+	 * Scopes include the implementations registered on their ancestors.
+	 * @param identifier The identifier shared by the implementations.
+	 * @returns The resolved implementations; empty if none are registered.
+	 */
+	getAll<T>(identifier: ServiceIdentifier<T>): T[] {
+		return this.getAllIdentifiers(identifier).map((id) => this.get<T>(id));
+	}
+
+	/**
+	 * Lists the identifiers resolved by `getAll()` for an identifier.
+	 */
+	private getAllIdentifiers<T>(identifier: ServiceIdentifier<T>): ServiceIdentifier<T>[] {
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		const identifiers = this.findMultiBindings(canonicalIdentifier);
+		if (this.findDescriptor(canonicalIdentifier)) {
+			identifiers.unshift(canonicalIdentifier);
+		}
+		return identifiers;
+	}
+
+	/**
+	 * Collects the multi-bindings of an identifier from the ancestors of this container and from itself.
+	 */
+	private findMultiBindings<T>(canonicalIdentifier: ServiceIdentifier<T>): ServiceIdentifier<T>[] {
+		const inherited = this.parent ? this.parent.findMultiBindings(canonicalIdentifier) : [];
+		return [...inherited, ...(this.multiBindings.get(canonicalIdentifier) || [])];
+	}
+
 	/**
 	 * Retrieves a service instance from the container.
 	 * @param identifier The unique identifier of the service to retrieve.
@@ -127,15 +428,23 @@ export class CustomContainer implements ICustomContainer {
 	 * @throws Error if the service is not registered.
 	 */
 	get<T>(identifier: ServiceIdentifier<T>): T {
+		if (this.disposed) {
+			throw new Error(`Cannot resolve service '${this.getIdentifierName(identifier)}' from a disposed container.`);
+		}
+
 		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
 
-		// Check if instance is already cached (for singletons)
+		// Check if instance is already cached (for singletons and scoped services)
 		if (this.instances.has(canonicalIdentifier)) {
 			return this.instances.get(canonicalIdentifier) as T;
 		}
 
 		const descriptor = this.services.get(canonicalIdentifier);
 		if (!descriptor) {
+			if (this.parent) {
+				return this.resolveInherited(identifier, canonicalIdentifier);
+			}
+
 			// As a fallback, try auto-registration if it's a class not yet explicitly registered.
 			// In a well-configured app using Tmick.autoScanAndRegisters, this path should be rare.
 			const autoRegisteredService = this.handleAutoRegistration(identifier);
@@ -146,15 +455,73 @@ export class CustomContainer implements ICustomContainer {
 			throw new Error(`Service '${this.getIdentifierName(identifier)}' not registered.`);
 		}
 
-		const instance = this.resolveService(descriptor);
+		const instance = this.constructService(canonicalIdentifier, descriptor);
+
+		// The root container acts as its own scope for scoped services resolved outside of a scope
+		if (descriptor.singleton || this.isScoped(descriptor)) {
+			this.cacheInstance(canonicalIdentifier, instance);
+		}
+
+		return instance;
+	}
+
+	/**
+	 * Resolves a service registered on an ancestor container.
+	 * Singletons are delegated to the container that owns them so they are shared across scopes,
+	 * scoped services are created and cached in this scope, and transient services are created
+	 * here so that their scoped dependencies come from this scope.
+	 * @param identifier The identifier as requested by the caller.
+	 * @param canonicalIdentifier The canonical form of the identifier.
+	 * @returns The resolved service instance.
+	 */
+	private resolveInherited<T>(identifier: ServiceIdentifier<T>, canonicalIdentifier: ServiceIdentifier<T>): T {
+		const parent = this.parent as CustomContainer;
+		const descriptor = parent.findDescriptor(canonicalIdentifier);
+
+		if (!descriptor || descriptor.singleton) {
+			return parent.get(identifier);
+		}
 
-		if (descriptor.singleton) {
-			this.instances.set(canonicalIdentifier, instance);
+		const instance = this.constructService(canonicalIdentifier, descriptor);
+		if (this.isScoped(descriptor)) {
+			this.cacheInstance(canonicalIdentifier, instance);
 		}
 
 		return instance;
 	}
 
+	/**
+	 * Caches an instance created by this container and records it for disposal.
+	 * Instances registered with `registerInstance()` are owned by the caller and are never disposed.
+	 */
+	private cacheInstance<T>(canonicalIdentifier: ServiceIdentifier<T>, instance: T): void {
+		this.instances.set(canonicalIdentifier, instance);
+		this.createdInstances.push({ identifier: canonicalIdentifier, instance });
+	}
+
+	/**
+	 * Looks up a service descriptor in this container and then in its ancestors.
+	 * @param canonicalIdentifier The canonical identifier of the service.
+	 * @returns The descriptor, or undefined if no container in the chain registers it.
+	 */
+	private findDescriptor<T>(canonicalIdentifier: ServiceIdentifier<T>): ServiceDescriptor<T> | undefined {
+		return this.services.get(canonicalIdentifier) || this.parent?.findDescriptor(canonicalIdentifier);
+	}
+
+	/**
+	 * Checks whether a descriptor creates its service by calling a class constructor.
+	 */
+	private isConstructorDescriptor<T>(descriptor: ServiceDescriptor<T>): descriptor is ConstructorServiceDescriptor<T> {
+		return !('instance' in descriptor) && !('factory' in descriptor) && !('asyncFactory' in descriptor);
+	}
+
+	/**
+	 * Checks whether a descriptor was registered with a scoped lifetime.
+	 */
+	private isScoped(descriptor: ServiceDescriptor<unknown>): boolean {
+		return 'scoped' in descriptor && descriptor.scoped === true;
+	}
+
 	/**
 	 * Checks if a service is registered in the container.
 	 * @param identifier The unique identifier of the service.
@@ -162,16 +529,148 @@ export class CustomContainer implements ICustomContainer {
 	 */
 	has<T>(identifier: ServiceIdentifier<T>): boolean {
 		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
-		return this.services.has(canonicalIdentifier) || this.stringToIdentifierMap.has(this.getIdentifierName(identifier));
+		if (this.services.has(canonicalIdentifier) || this.stringToIdentifierMap.has(this.getIdentifierName(identifier))) {
+			return true;
+		}
+		return this.parent ? this.parent.has(identifier) : false;
+	}
+
+	/**
+	 * Creates a child container (scope) that inherits all registrations of this container.
+	 * Scoped services resolved from the child are cached in the child until it is disposed.
+	 * @returns The new scope.
+	 */
+	createScope(): CustomContainer {
+		return new CustomContainer(this);
+	}
+
+	/**
+	 * Disposes the container: every singleton or scoped instance it created is disposed in
+	 * reverse creation order (dependents before their dependencies), then its cache is dropped.
+	 * An instance is disposed through its @PreDestroy method if it has one, otherwise through
+	 * `Symbol.asyncDispose`, `Symbol.dispose` or a `dispose()` method. Transient instances and
+	 * instances registered with `registerInstance()` are not disposed.
+	 * Any further attempt to resolve services from the container will throw.
+	 * @param options Disposal options, e.g. the default per-service timeout.
+	 * @throws DisposalError listing every service that failed or timed out, after all services were processed.
+	 */
+	async dispose(options: DisposeOptions = {}): Promise<void> {
+		if (this.disposed) {
+			return;
+		}
+		this.disposed = true;
+
+		const created = this.createdInstances.reverse();
+		this.createdInstances = [];
+		this.instances.clear();
+
+		const failures: DisposalFailure[] = [];
+		for (const { identifier, instance } of created) {
+			try {
+				await this.disposeInstance(identifier, instance, options.timeoutMs ?? DEFAULT_DISPOSE_TIMEOUT_MS);
+			} catch (error) {
+				failures.push({ service: this.getIdentifierName(identifier), error });
+			}
+		}
+
+		if (failures.length > 0) {
+			throw new DisposalError(failures);
+		}
+	}
+
+	/**
+	 * Runs the disposal hook of a single instance, failing if it takes longer than its timeout.
+	 * @param identifier The identifier the instance was cached under.
+	 * @param instance The instance to dispose.
+	 * @param defaultTimeoutMs The timeout used when the @PreDestroy hook does not declare one.
+	 */
+	private async disposeInstance(identifier: ServiceIdentifier<unknown>, instance: unknown, defaultTimeoutMs: number): Promise<void> {
+		if (instance === null || typeof instance !== 'object') {
+			return;
+		}
+
+		const service = instance as Record<PropertyKey, unknown>;
+		const preDestroy: { methodName: string | symbol; timeoutMs?: number } | undefined = getMetadata('cqrs:pre-destroy', instance.constructor);
+		// Symbol.asyncDispose and Symbol.dispose are only defined by recent runtimes
+		const { asyncDispose, dispose } = Symbol as typeof Symbol & { asyncDispose?: symbol; dispose?: symbol };
+
+		// The @PreDestroy method, otherwise the first disposal method the instance implements
+		const methodName = preDestroy ? preDestroy.methodName : [asyncDispose, dispose, 'dispose'].find((key) => key !== undefined && typeof service[key] === 'function');
+		if (methodName === undefined) {
+			return;
+		}
+		const hook = () => (service[methodName] as () => unknown).call(service);
+
+		const timeoutMs: number = preDestroy?.timeoutMs ?? defaultTimeoutMs;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => reject(new Error(`Disposing service '${this.getIdentifierName(identifier)}' timed out after ${timeoutMs}ms.`)), timeoutMs);
+		});
+
+		try {
+			await Promise.race([Promise.resolve().then(hook), timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Removes the registration of a service from this container, together with its cached instance,
+	 * so that it can be registered again without a warning. Multi, named and tag bindings are kept.
+	 * @param identifier The unique identifier of the service.
+	 * @returns True if the service was registered in this container (not only in an ancestor).
+	 */
+	unregister<T>(identifier: ServiceIdentifier<T>): boolean {
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		this.instances.delete(canonicalIdentifier);
+		this.createdInstances = this.createdInstances.filter((created) => created.identifier !== canonicalIdentifier);
+		return this.services.delete(canonicalIdentifier);
+	}
+
+	/**
+	 * Copies the registrations and cached instances of this container, e.g. before a test.
+	 * Instances are shared with the snapshot, not cloned.
+	 * @returns The snapshot to pass to `restore()`.
+	 */
+	snapshot(): ContainerSnapshot {
+		const { services, instances, multiBindings, namedBindings, taggedBindings, stringToIdentifierMap, createdInstances } = this;
+		return copyState({ services, instances, multiBindings, namedBindings, taggedBindings, stringToIdentifierMap, createdInstances });
+	}
+
+	/**
+	 * Puts back the registrations and cached instances copied by `snapshot()`, e.g. after a test.
+	 * Everything registered or created since is dropped; instances created since are not disposed.
+	 * A snapshot can be restored any number of times.
+	 * @param snapshot The snapshot taken from this container.
+	 */
+	restore(snapshot: ContainerSnapshot): void {
+		({
+			services: this.services,
+			instances: this.instances,
+			multiBindings: this.multiBindings,
+			namedBindings: this.namedBindings,
+			taggedBindings: this.taggedBindings,
+			stringToIdentifierMap: this.stringToIdentifierMap,
+			createdInstances: this.createdInstances,
+		} = copyState(snapshot));
+		this.pendingInstances.clear();
+		this.disposed = false;
 	}
 
 	/**
 	 * Clears all registered services and cached instances from the container.
+	 * A disposed container can be used again once cleared.
 	 */
 	clear(): void {
+		this.disposed = false;
 		this.services.clear();
 		this.instances.clear();
+		this.multiBindings.clear();
+		this.namedBindings.clear();
+		this.taggedBindings.clear();
+		this.createdInstances = [];
 		this.stringToIdentifierMap.clear();
+		this.globalInterceptors = [];
 	}
 
 	/**
@@ -182,21 +681,39 @@ export class CustomContainer implements ICustomContainer {
 	 * @returns The resolved service instance, or null if not auto-registered.
 	 */
 	private handleAutoRegistration<T>(identifier: ServiceIdentifier<T>): T | null {
+		const autoDescriptor = this.autoRegister(identifier);
+		if (!autoDescriptor) {
+			return null;
+		}
+
+		const instance = this.constructService(autoDescriptor.identifier, autoDescriptor);
+		this.cacheAutoRegistered(autoDescriptor, instance);
+		return instance;
+	}
+
+	/**
+	 * Registers a class decorated with @Injectable from its metadata, under both its
+	 * configured identifier and its constructor.
+	 * @param identifier The identifier (potentially a class constructor) to auto-register.
+	 * @returns The registered descriptor, or null if the identifier is not an injectable class.
+	 */
+	private autoRegister<T>(identifier: ServiceIdentifier<T>): ConstructorServiceDescriptor<T> | null {
 		if (typeof identifier === 'function' && identifier.prototype && identifier.prototype.constructor) {
 			const constructorIdentifier = identifier as ServiceConstructor<T>;
-			const serviceMetadata = Reflect.getMetadata('cqrs:injectable-service', constructorIdentifier);
+			const serviceMetadata = getMetadata<InjectableMetadata>('cqrs:injectable-service', constructorIdentifier);
 
 			if (serviceMetadata) {
-				const { singleton = true, id } = serviceMetadata;
+				const { singleton = true, scoped = false, id } = serviceMetadata;
 				const serviceId = id || constructorIdentifier;
 
 				const metadataDependencies = this.getMetadataDependencies(constructorIdentifier);
-				const canonicalDependencies = metadataDependencies.map((dep) => this.getCanonicalIdentifier(dep));
+				const canonicalDependencies = metadataDependencies.map((dep) => this.getCanonicalDependency(dep));
 
 				const autoDescriptor: ConstructorServiceDescriptor<T> = {
 					identifier: serviceId,
 					constructor: constructorIdentifier,
-					singleton,
+					singleton: singleton && !scoped,
+					scoped,
 					canonicalDependencies,
 				};
 
@@ -204,19 +721,242 @@ export class CustomContainer implements ICustomContainer {
 				if (serviceId !== constructorIdentifier) {
 					this.services.set(constructorIdentifier, autoDescriptor);
 				}
+				this.addTags(serviceId, constructorIdentifier);
+				return autoDescriptor;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Caches an auto-registered instance under both of its identifiers, unless it is transient.
+	 */
+	private cacheAutoRegistered<T>(descriptor: ConstructorServiceDescriptor<T>, instance: T): void {
+		if (descriptor.singleton || this.isScoped(descriptor)) {
+			this.cacheInstance(descriptor.identifier, instance);
+			if (descriptor.identifier !== descriptor.constructor) {
+				this.instances.set(descriptor.constructor, instance);
+			}
+		}
+	}
+
+	/**
+	 * Resolves a service while tracking it on the resolution path, so that a service which
+	 * (directly or transitively) depends on itself fails with a CircularDependencyError
+	 * instead of overflowing the stack.
+	 * @param canonicalIdentifier The canonical identifier of the service being constructed.
+	 * @param descriptor The service descriptor.
+	 * @returns The resolved service instance.
+	 * @throws CircularDependencyError if the service is already being constructed.
+	 */
+	private constructService<T>(canonicalIdentifier: ServiceIdentifier<T>, descriptor: ServiceDescriptor<T>): T {
+		const cycleStart = this.resolutionPath.findIndex((entry) => entry.container === this && entry.identifier === canonicalIdentifier);
+		if (cycleStart !== -1) {
+			const cycle = [...this.resolutionPath.slice(cycleStart).map((entry) => entry.identifier), canonicalIdentifier];
+			throw new CircularDependencyError(cycle.map((id) => this.getIdentifierName(id)));
+		}
+
+		this.resolutionPath.push({ container: this, identifier: canonicalIdentifier });
+		try {
+			return this.resolveService(descriptor);
+		} finally {
+			this.resolutionPath.pop();
+		}
+	}
+
+	/**
+	 * Walks the dependencies of every class and factory provider and throws on the first cycle found.
+	 * Factories registered with `registerFactory()` are skipped since their dependencies are not known upfront, and so are lazy dependencies.
+	 * @throws CircularDependencyError naming every service on the cycle.
+	 */
+	validate(): void {
+		const [cycle] = this.findCycles();
+		if (cycle) {
+			throw new CircularDependencyError(cycle);
+		}
+	}
+
+	/**
+	 * Inspects the dependency graph of the classes and factory providers registered in this container and
+	 * reports every problem at once: dependencies that cannot be resolved, cycles, and captive dependencies
+	 * (a singleton depending on a transient or scoped service, which it would keep for its whole lifetime).
+	 * Dependencies of factories registered with `registerFactory()` are not known, so they are never analyzed.
+	 * @returns The issues found; empty if the graph is sound.
+	 */
+	analyze(): DependencyIssue[] {
+		const issues: DependencyIssue[] = [];
+		const report = (issue: DependencyIssue) => {
+			if (!issues.some((existing) => existing.message === issue.message)) {
+				issues.push(issue);
+			}
+		};
+
+		for (const [identifier, descriptor] of this.services) {
+			const dependencies = this.getDeclaredDependencies(descriptor);
+			if (!dependencies) {
+				continue;
+			}
+
+			const service = this.getIdentifierName(identifier);
+			for (const dependency of dependencies) {
+				const { identifier: dependencyIdentifier, multi, optional, lazy, name } = isDependencyDescriptor(dependency) ? dependency : ({ identifier: dependency } as DependencyDescriptor);
+				if (multi) {
+					continue;
+				}
+
+				const dependencyName = this.getIdentifierName(dependencyIdentifier) + (name !== undefined ? ` named '${name}'` : '');
+				if (!this.canResolve({ identifier: dependencyIdentifier, name })) {
+					if (!optional) {
+						report({ kind: 'missing', service, message: `Service '${service}' depends on '${dependencyName}', which is not registered.` });
+					}
+					continue;
+				}
+
+				const target = name !== undefined ? this.findNamedBinding(this.getCanonicalIdentifier(dependencyIdentifier), name) : this.getCanonicalIdentifier(dependencyIdentifier);
+				const lifetime = target !== undefined ? this.getLifetime(target) : undefined;
+				if (descriptor.singleton && !lazy && (lifetime === 'transient' || lifetime === 'scoped')) {
+					report({ kind: 'captive', service, message: `Singleton '${service}' depends on ${lifetime} '${dependencyName}', which it would capture for its whole lifetime.` });
+				}
+			}
+		}
+
+		for (const cycle of this.findCycles()) {
+			report({ kind: 'cycle', service: cycle[0], message: new CircularDependencyError(cycle).message });
+		}
+		return issues;
+	}
+
+	/**
+	 * Describes the services registered in this container and the dependencies declared by
+	 * classes (constructor parameters and @InjectProperty properties) and factory providers (`inject`).
+	 * Dependencies on every implementation of an identifier get one edge per implementation.
+	 * @returns The dependency graph.
+	 */
+	getDependencyGraph(): DependencyGraph {
+		const graph: DependencyGraph = { nodes: [], edges: [] };
+
+		for (const [identifier, descriptor] of this.services) {
+			const id = this.getIdentifierName(identifier);
+			if ('instance' in descriptor) {
+				graph.nodes.push({ id, kind: 'instance', lifetime: 'singleton' });
+				continue;
+			}
+
+			const lifetime = this.getLifetime(identifier) ?? (this.isScoped(descriptor) ? 'scoped' : descriptor.singleton ? 'singleton' : 'transient');
+			const kind = this.isConstructorDescriptor(descriptor) ? 'constructor' : 'alias' in descriptor && descriptor.alias ? 'alias' : 'factory';
+			graph.nodes.push({ id, kind, lifetime });
+			for (const dependency of this.getDeclaredDependencies(descriptor) || []) {
+				const { identifier: dependencyIdentifier, multi, optional, lazy, name } = isDependencyDescriptor(dependency) ? dependency : ({ identifier: dependency } as DependencyDescriptor);
+				const edge: DependencyGraphEdge = { from: id, to: '', kind: 'dependency' };
+				if (lazy) {
+					edge.lazy = true;
+				}
+				if (optional) {
+					edge.optional = true;
+				}
+
+				if (multi) {
+					this.getAllIdentifiers(dependencyIdentifier).forEach((implementation) => graph.edges.push({ ...edge, to: this.getIdentifierName(implementation), multi: true }));
+					continue;
+				}
+				const target = name !== undefined ? this.findNamedBinding(this.getCanonicalIdentifier(dependencyIdentifier), name) : undefined;
+				graph.edges.push({ ...edge, to: this.getIdentifierName(target ?? this.getCanonicalIdentifier(dependencyIdentifier)) });
+			}
+		}
+		return graph;
+	}
+
+	/**
+	 * Determines the lifetime of a class or factory provider, registered or to be auto-registered from its @Injectable metadata.
+	 * Aliases have the lifetime of the service they resolve to.
+	 * @returns The lifetime, or undefined for factories registered with `registerFactory()`, instances and unknown services.
+	 */
+	private getLifetime(canonicalIdentifier: ServiceIdentifier<unknown>, aliases: ServiceIdentifier<unknown>[] = []): 'singleton' | 'scoped' | 'transient' | undefined {
+		const descriptor = this.findDescriptor(canonicalIdentifier);
+		if (descriptor) {
+			const dependencies = this.getDeclaredDependencies(descriptor);
+			if (!dependencies) {
+				return undefined;
+			}
+			if ('alias' in descriptor && descriptor.alias) {
+				// Guard against aliases of each other
+				const [aliased] = dependencies;
+				const target = this.getCanonicalIdentifier(isDependencyDescriptor(aliased) ? aliased.identifier : aliased);
+				return aliases.includes(target) ? undefined : this.getLifetime(target, [...aliases, canonicalIdentifier]);
+			}
+			return this.isScoped(descriptor) ? 'scoped' : descriptor.singleton ? 'singleton' : 'transient';
+		}
+
+		const metadata = typeof canonicalIdentifier === 'function' ? getMetadata<InjectableMetadata>('cqrs:injectable-service', canonicalIdentifier) : undefined;
+		if (!metadata) {
+			return undefined;
+		}
+		return metadata.scoped ? 'scoped' : metadata.singleton === false ? 'transient' : 'singleton';
+	}
+
+	/**
+	 * Finds the cycles in the declared dependencies of the registered services with a depth-first walk.
+	 * Lazy dependencies are resolved after construction, so they cannot form a construction cycle.
+	 * @returns The cycles found, each listing the service names and starting and ending with the same service.
+	 */
+	private findCycles(): string[][] {
+		const cycles: string[][] = [];
+		const visited = new Set<ServiceIdentifier<unknown>>();
+		const path: ServiceIdentifier<unknown>[] = [];
+
+		const visit = (identifier: ServiceIdentifier<unknown>): void => {
+			const cycleStart = path.indexOf(identifier);
+			if (cycleStart !== -1) {
+				cycles.push([...path.slice(cycleStart), identifier].map((id) => this.getIdentifierName(id)));
+				return;
+			}
+			if (visited.has(identifier)) {
+				return;
+			}
 
-				const instance = this.resolveService(autoDescriptor);
+			const descriptor = this.findDescriptor(identifier);
+			const dependencies = descriptor && this.getDeclaredDependencies(descriptor);
+			if (!dependencies) {
+				visited.add(identifier);
+				return;
+			}
 
-				if (singleton) {
-					this.instances.set(serviceId, instance);
-					if (serviceId !== constructorIdentifier) {
-						this.instances.set(constructorIdentifier, instance);
+			path.push(identifier);
+			for (const dependency of dependencies) {
+				if (isDependencyDescriptor(dependency) && dependency.lazy) {
+					continue;
+				}
+				if (isDependencyDescriptor(dependency) && dependency.multi) {
+					this.getAllIdentifiers(dependency.identifier).forEach(visit);
+				} else if (isDependencyDescriptor(dependency) && dependency.name !== undefined) {
+					const namedIdentifier = this.findNamedBinding(this.getCanonicalIdentifier(dependency.identifier), dependency.name);
+					if (namedIdentifier) {
+						visit(namedIdentifier);
 					}
+				} else {
+					visit(this.getCanonicalIdentifier(isDependencyDescriptor(dependency) ? dependency.identifier : dependency));
 				}
-				return instance;
 			}
+			path.pop();
+			visited.add(identifier);
+		};
+
+		for (const identifier of this.services.keys()) {
+			visit(identifier);
 		}
-		return null;
+		return cycles;
+	}
+
+	/**
+	 * Lists the dependencies a service declares: the constructor dependencies of a class followed by those
+	 * of its @InjectProperty properties, or the dependencies a factory provider declares with `inject`.
+	 * @returns The dependencies, or undefined for instances and factories registered with `registerFactory()`.
+	 */
+	private getDeclaredDependencies<T>(descriptor: ServiceDescriptor<T>): ServiceDependency[] | undefined {
+		if (this.isConstructorDescriptor(descriptor)) {
+			return [...(descriptor.canonicalDependencies || []), ...this.getPropertyDependencies(descriptor.constructor).map((property) => property.dependency)];
+		}
+		return 'canonicalDependencies' in descriptor ? descriptor.canonicalDependencies : undefined;
 	}
 
 	/**
@@ -231,55 +971,397 @@ export class CustomContainer implements ICustomContainer {
 		}
 
 		if ('factory' in descriptor && descriptor.factory !== undefined) {
+			// Factory providers receive their declared dependencies instead of the container
+			if (descriptor.canonicalDependencies) {
+				return (descriptor.factory as (...dependencies: unknown[]) => T)(...this.resolveDependencies(descriptor));
+			}
 			return descriptor.factory(this);
 		}
 
+		if ('asyncFactory' in descriptor && descriptor.asyncFactory !== undefined) {
+			throw new Error(`Service '${this.getIdentifierName(descriptor.identifier)}' is created asynchronously. Resolve it with getAsync() or call initializeAsync() first.`);
+		}
+
 		if ('constructor' in descriptor && descriptor.constructor !== undefined) {
 			const constructorDescriptor = descriptor as ConstructorServiceDescriptor<T>;
+			// Refuse async hooks before anything is constructed, so a failed get() has no side effects
+			if (this.hasAsyncPostConstruct(constructorDescriptor.constructor)) {
+				throw new Error(`Service '${this.getIdentifierName(descriptor.identifier)}' has an asynchronous @PostConstruct hook. Resolve it with getAsync() or call initializeAsync() first.`);
+			}
 			// Dependencies are retrieved directly from the descriptor's `canonicalDependencies` array,
 			// which was pre-populated at registration time.
 			const dependencies = this.resolveDependencies(constructorDescriptor);
-			return new constructorDescriptor.constructor(...dependencies);
+			const instance = new constructorDescriptor.constructor(...dependencies);
+			for (const { propertyKey, dependency } of this.getPropertyDependencies(constructorDescriptor.constructor)) {
+				(instance as Record<PropertyKey, unknown>)[propertyKey] = this.resolveDependency(dependency);
+			}
+
+			const initialization = this.runPostConstruct(instance);
+			if (initialization) {
+				// A hook returning a Promise without being declared async is only detected once it ran;
+				// swallow the rejection here, the caller is told to use the async resolution path instead.
+				initialization.catch(() => undefined);
+				throw new Error(`Service '${this.getIdentifierName(descriptor.identifier)}' has an asynchronous @PostConstruct hook. Resolve it with getAsync() or call initializeAsync() first.`);
+			}
+			this.intercept(instance);
+			return instance;
 		}
 
 		throw new Error(`Cannot resolve service '${this.getIdentifierName(descriptor.identifier)}': No factory, constructor, or instance provided.`);
 	}
 
 	/**
-	 * Resolves the dependencies for a constructor-based service.
+	 * Asynchronously retrieves a service instance, awaiting async factories and
+	 * async @PostConstruct hooks of the service and of all its dependencies.
+	 * Concurrent requests for the same singleton share a single construction.
+	 * @param identifier The unique identifier of the service to retrieve.
+	 * @returns A Promise resolving to the service instance.
+	 * @throws Error if the service is not registered.
+	 */
+	getAsync<T>(identifier: ServiceIdentifier<T>): Promise<T> {
+		return this.resolveAsync(identifier, []);
+	}
+
+	/**
+	 * Resolves every async singleton (async factories and classes with a @PostConstruct hook)
+	 * so that they can afterwards be retrieved synchronously with `get()`.
+	 * Dependencies are resolved before the services that depend on them.
+	 */
+	async initializeAsync(): Promise<void> {
+		for (const [identifier, descriptor] of Array.from(this.services.entries())) {
+			if (!descriptor.singleton || this.instances.has(identifier)) {
+				continue;
+			}
+
+			const hasAsyncFactory = 'asyncFactory' in descriptor;
+			const hasPostConstruct = this.isConstructorDescriptor(descriptor) && hasMetadata('cqrs:post-construct', descriptor.constructor);
+			if (hasAsyncFactory || hasPostConstruct) {
+				await this.getAsync(identifier);
+			}
+		}
+	}
+
+	/**
+	 * Async counterpart of `get()`. Instead of the shared resolution path used by `get()`,
+	 * the path is passed down explicitly since several async resolutions may be in flight at once.
+	 * @param identifier The identifier as requested by the caller.
+	 * @param path The services currently being constructed on this resolution branch.
+	 */
+	private async resolveAsync<T>(identifier: ServiceIdentifier<T>, path: ServiceIdentifier<unknown>[]): Promise<T> {
+		if (this.disposed) {
+			throw new Error(`Cannot resolve service '${this.getIdentifierName(identifier)}' from a disposed container.`);
+		}
+
+		const canonicalIdentifier = this.getCanonicalIdentifier(identifier);
+		if (this.instances.has(canonicalIdentifier)) {
+			return this.instances.get(canonicalIdentifier) as T;
+		}
+
+		const cycleStart = path.indexOf(canonicalIdentifier);
+		if (cycleStart !== -1) {
+			const cycle = [...path.slice(cycleStart), canonicalIdentifier];
+			throw new CircularDependencyError(cycle.map((id) => this.getIdentifierName(id)));
+		}
+
+		const pending = this.pendingInstances.get(canonicalIdentifier);
+		if (pending) {
+			return pending as Promise<T>;
+		}
+
+		let descriptor = this.services.get(canonicalIdentifier);
+		if (!descriptor && this.parent) {
+			const inherited = this.parent.findDescriptor(canonicalIdentifier);
+			if (!inherited || inherited.singleton) {
+				return this.parent.resolveAsync(identifier, path);
+			}
+			descriptor = inherited;
+		}
+
+		if (!descriptor) {
+			const autoDescriptor = this.autoRegister(identifier);
+			if (!autoDescriptor) {
+				throw new Error(`Service '${this.getIdentifierName(identifier)}' not registered.`);
+			}
+			const instance = await this.resolveServiceAsync(autoDescriptor, [...path, canonicalIdentifier]);
+			this.cacheAutoRegistered(autoDescriptor, instance);
+			return instance;
+		}
+
+		const construction = this.resolveServiceAsync(descriptor, [...path, canonicalIdentifier]);
+		if (!descriptor.singleton && !this.isScoped(descriptor)) {
+			return construction;
+		}
+
+		this.pendingInstances.set(canonicalIdentifier, construction);
+		try {
+			const instance = await construction;
+			this.cacheInstance(canonicalIdentifier, instance);
+			return instance;
+		} finally {
+			this.pendingInstances.delete(canonicalIdentifier);
+		}
+	}
+
+	/**
+	 * Async counterpart of `resolveService()`.
+	 * @param descriptor The service descriptor.
+	 * @param path The resolution path, ending with the service being constructed.
+	 * @returns A Promise resolving to the service instance.
+	 */
+	private async resolveServiceAsync<T>(descriptor: ServiceDescriptor<T>, path: ServiceIdentifier<unknown>[]): Promise<T> {
+		if ('instance' in descriptor && descriptor.instance !== undefined) {
+			return descriptor.instance;
+		}
+
+		if ('factory' in descriptor && descriptor.factory !== undefined) {
+			if (descriptor.canonicalDependencies) {
+				const dependencies: unknown[] = [];
+				for (const dependency of descriptor.canonicalDependencies) {
+					dependencies.push(await this.resolveDependencyAsync(dependency, path));
+				}
+				return (descriptor.factory as (...dependencies: unknown[]) => T)(...dependencies);
+			}
+			return descriptor.factory(this);
+		}
+
+		if ('asyncFactory' in descriptor && descriptor.asyncFactory !== undefined) {
+			return descriptor.asyncFactory(this);
+		}
+
+		if ('constructor' in descriptor && descriptor.constructor !== undefined) {
+			const constructorDescriptor = descriptor as ConstructorServiceDescriptor<T>;
+			const dependencies: unknown[] = [];
+			// Resolve sequentially so that dependencies are initialized in a deterministic order
+			for (const dependency of constructorDescriptor.canonicalDependencies || []) {
+				dependencies.push(await this.resolveDependencyAsync(dependency, path));
+			}
+
+			const instance = new constructorDescriptor.constructor(...dependencies);
+			for (const { propertyKey, dependency } of this.getPropertyDependencies(constructorDescriptor.constructor)) {
+				(instance as Record<PropertyKey, unknown>)[propertyKey] = await this.resolveDependencyAsync(dependency, path);
+			}
+
+			await this.runPostConstruct(instance);
+			this.intercept(instance);
+			return instance;
+		}
+
+		throw new Error(`Cannot resolve service '${this.getIdentifierName(descriptor.identifier)}': No factory, constructor, or instance provided.`);
+	}
+
+	/**
+	 * Checks whether the method a class marks with @PostConstruct is declared async.
+	 * @param constructor The service constructor.
+	 * @returns True if the hook is an async function.
+	 */
+	private hasAsyncPostConstruct(constructor: ServiceConstructor<unknown>): boolean {
+		const methodName: string | symbol | undefined = getMetadata('cqrs:post-construct', constructor);
+		if (methodName === undefined) {
+			return false;
+		}
+		const hook: unknown = (constructor.prototype as Record<PropertyKey, unknown>)[methodName];
+		return typeof hook === 'function' && hook.constructor.name === 'AsyncFunction';
+	}
+
+	/**
+	 * Invokes the method marked with @PostConstruct on a freshly constructed instance, if any.
+	 * @param instance The constructed service instance.
+	 * @returns The Promise returned by the hook if it is asynchronous, otherwise undefined.
+	 */
+	private runPostConstruct(instance: unknown): Promise<void> | undefined {
+		const service = instance as Record<PropertyKey, () => Promise<void> | undefined>;
+		const methodName: string | symbol | undefined = getMetadata('cqrs:post-construct', service.constructor);
+		if (methodName === undefined) {
+			return undefined;
+		}
+
+		const result = service[methodName]();
+		return result && typeof result.then === 'function' ? result : undefined;
+	}
+
+	/**
+	 * Registers interceptors wrapping the methods of every service constructed from a class
+	 * from now on, by this container and its scopes, outside the interceptors declared with @UseInterceptors.
+	 * @param interceptors The identifiers of the interceptors, outermost first.
+	 */
+	addInterceptors(...interceptors: ServiceIdentifier<IInterceptor>[]): void {
+		this.globalInterceptors.push(...interceptors);
+	}
+
+	/**
+	 * Collects the global interceptors of the ancestors of this container and of itself, outermost first.
+	 */
+	private getGlobalInterceptors(): ServiceIdentifier<IInterceptor>[] {
+		return [...(this.parent ? this.parent.getGlobalInterceptors() : []), ...this.globalInterceptors];
+	}
+
+	/**
+	 * Wraps the methods of a freshly constructed service with its global and declared interceptors.
+	 */
+	private intercept(instance: unknown): void {
+		if (instance === null || typeof instance !== 'object') {
+			return;
+		}
+		applyInterceptors(instance, this.getGlobalInterceptors(), (identifier) => this.get(identifier));
+	}
+
+	/**
+	 * Resolves the dependencies for a constructor-based service or a factory provider.
 	 * It uses the pre-resolved `canonicalDependencies` stored in the descriptor.
-	 * @param descriptor The constructor service descriptor.
+	 * @param descriptor The constructor or factory service descriptor.
 	 * @returns An array of resolved dependency instances.
 	 */
-	private resolveDependencies<T>(descriptor: ConstructorServiceDescriptor<T>): any[] {
+	private resolveDependencies<T>(descriptor: ConstructorServiceDescriptor<T> | FactoryServiceDescriptor<T>): unknown[] {
 		if (!descriptor.canonicalDependencies || descriptor.canonicalDependencies.length === 0) {
 			return [];
 		}
-		return descriptor.canonicalDependencies.map((depIdentifier) => this.get(depIdentifier));
+		return descriptor.canonicalDependencies.map((dependency) => this.resolveDependency(dependency));
+	}
+
+	/**
+	 * Resolves a single constructor dependency, honouring the options of a DependencyDescriptor.
+	 * @param dependency The dependency identifier or descriptor.
+	 * @returns The value to inject.
+	 */
+	private resolveDependency(dependency: ServiceDependency): unknown {
+		if (!isDependencyDescriptor(dependency)) {
+			return this.get(dependency);
+		}
+		if (dependency.lazy) {
+			return createLazyProxy(() => this.resolveDependency({ ...dependency, lazy: false }) as object);
+		}
+		if (dependency.multi) {
+			return this.getAll(dependency.identifier);
+		}
+		if (dependency.optional && !this.canResolve(dependency)) {
+			return dependency.defaultValue;
+		}
+		if (dependency.name !== undefined) {
+			return this.getNamed(dependency.identifier, dependency.name);
+		}
+		return this.get(dependency.identifier);
+	}
+
+	/**
+	 * Async counterpart of `resolveDependency()`.
+	 * @param dependency The dependency identifier or descriptor.
+	 * @param path The resolution path, ending with the service being constructed.
+	 * @returns A Promise resolving to the value to inject.
+	 */
+	private async resolveDependencyAsync(dependency: ServiceDependency, path: ServiceIdentifier<unknown>[]): Promise<unknown> {
+		if (!isDependencyDescriptor(dependency)) {
+			return this.resolveAsync(dependency, path);
+		}
+		if (dependency.lazy) {
+			return createLazyProxy(() => this.resolveDependency({ ...dependency, lazy: false }) as object);
+		}
+		if (dependency.multi) {
+			const implementations: unknown[] = [];
+			for (const identifier of this.getAllIdentifiers(dependency.identifier)) {
+				implementations.push(await this.resolveAsync(identifier, path));
+			}
+			return implementations;
+		}
+		if (dependency.optional && !this.canResolve(dependency)) {
+			return dependency.defaultValue;
+		}
+		if (dependency.name !== undefined) {
+			return this.resolveAsync(this.getNamedIdentifier(dependency.identifier, dependency.name), path);
+		}
+		return this.resolveAsync(dependency.identifier, path);
+	}
+
+	/**
+	 * Checks whether a dependency can be resolved, either because it is registered
+	 * or because it is an @Injectable class that will be auto-registered.
+	 */
+	private canResolve({ identifier, name }: DependencyDescriptor): boolean {
+		if (name !== undefined) {
+			return this.findNamedBinding(this.getCanonicalIdentifier(identifier), name) !== undefined;
+		}
+		return this.findDescriptor(this.getCanonicalIdentifier(identifier)) !== undefined || (typeof identifier === 'function' && hasMetadata('cqrs:injectable-service', identifier));
 	}
 
 	/**
 	 * Retrieves dependency metadata from a class constructor, typically set by @Inject decorators.
+	 * Parameters without @Inject are injected by their declared type, taken from the `design:paramtypes`
+	 * metadata TypeScript emits with `emitDecoratorMetadata`, so a concrete @Injectable class needs no token.
 	 * This method is used during the initial auto-scanning and registration process.
 	 * @param constructor The service constructor.
-	 * @returns An array of ServiceIdentifiers representing the constructor's dependencies.
+	 * @returns An array of ServiceDependencies representing the constructor's dependencies.
+	 * @throws Error if a parameter without @Inject has a type that cannot identify a service, e.g. an interface.
 	 */
-	public getMetadataDependencies(constructor: ServiceConstructor<any>): ServiceIdentifier[] {
-		const paramDeps = Reflect.getMetadata('cqrs:param-dependencies', constructor) || [];
-		if (paramDeps.length > 0) {
-			return paramDeps;
+	public getMetadataDependencies(constructor: ServiceConstructor<unknown>): ServiceDependency[] {
+		const paramDeps: ServiceDependency[] = getMetadata('cqrs:param-dependencies', constructor) || [];
+		if (paramDeps.length === 0) {
+			const classDeps = getMetadata<ServiceDependency[]>('cqrs:class-dependencies', constructor);
+			if (classDeps) {
+				return classDeps;
+			}
+
+			const stringDeps: ServiceDependency[] = getMetadata('cqrs:dependencies', constructor) || [];
+			if (stringDeps.length > 0) {
+				return stringDeps;
+			}
 		}
 
-		const classDeps = Reflect.getMetadata('cqrs:class-dependencies', constructor);
-		if (classDeps) {
-			return classDeps;
+		const paramTypes: unknown[] = getMetadata('design:paramtypes', constructor) || [];
+		const optionalParams: number[] = getMetadata('cqrs:optional-params', constructor) || [];
+		const lazyParams: number[] = getMetadata('cqrs:lazy-params', constructor) || [];
+
+		return Array.from({ length: Math.max(paramDeps.length, paramTypes.length) }, (_, index) => {
+			// An explicit @Inject takes precedence over the declared type of the parameter
+			const dependency = paramDeps[index] ?? this.getParamTypeDependency(constructor, paramTypes[index], index);
+
+			// Apply @Optional() and @Lazy() markers to the dependency
+			if (!optionalParams.includes(index) && !lazyParams.includes(index)) {
+				return dependency;
+			}
+			const descriptor = isDependencyDescriptor(dependency) ? { ...dependency } : { identifier: dependency };
+			if (optionalParams.includes(index)) {
+				descriptor.optional = true;
+			}
+			if (lazyParams.includes(index)) {
+				descriptor.lazy = true;
+			}
+			return descriptor;
+		});
+	}
+
+	/**
+	 * Uses the declared type of a constructor parameter as its dependency.
+	 * Interfaces, type aliases and unions are emitted as `Object`, and types declared later in the
+	 * same file (or imported circularly) as `undefined`; these need an explicit token.
+	 * @throws Error if the type is not a class.
+	 */
+	private getParamTypeDependency(constructor: ServiceConstructor<unknown>, paramType: unknown, index: number): ServiceDependency {
+		if (typeof paramType !== 'function' || NON_INJECTABLE_PARAM_TYPES.includes(paramType)) {
+			const typeName = typeof paramType === 'function' ? paramType.name : String(paramType);
+			throw new Error(
+				`Cannot infer the dependency of parameter #${index} of '${constructor.name}': its type '${typeName}' is not a class (an interface, primitive or a type not yet defined). Decorate the parameter with @Inject(token).`
+			);
+		}
+		return paramType as ServiceConstructor<unknown>;
+	}
+
+	/**
+	 * Retrieves the properties decorated with @InjectProperty on a class and its base classes,
+	 * base class properties first. A subclass redeclaring a property overrides its dependency.
+	 * @param constructor The service constructor.
+	 * @returns The property dependencies to inject after construction.
+	 */
+	public getPropertyDependencies(constructor: ServiceConstructor<unknown>): PropertyDependency[] {
+		const dependencies = new Map<string | symbol, PropertyDependency>();
+		const hierarchy: ServiceConstructor<unknown>[] = [];
+		for (let current = constructor; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+			hierarchy.unshift(current);
 		}
 
-		const stringDeps = Reflect.getMetadata('cqrs:dependencies', constructor) || [];
-		if (stringDeps.length > 0) {
-			return stringDeps;
+		for (const current of hierarchy) {
+			const own: PropertyDependency[] = getOwnMetadata('cqrs:property-dependencies', current) || [];
+			own.forEach((property) => dependencies.set(property.propertyKey, property));
 		}
-		return [];
+		return [...dependencies.values()];
 	}
 
 	/**
@@ -315,3 +1397,19 @@ export class CustomContainer implements ICustomContainer {
 		};
 	}
 }
+
+/**
+ * Copies the registrations and cached instances of a container or snapshot,
+ * so that neither sees later changes made to the other.
+ */
+function copyState(state: ContainerSnapshot): ContainerSnapshot {
+	return {
+		services: new Map(state.services),
+		instances: new Map(state.instances),
+		multiBindings: new Map(Array.from(state.multiBindings, ([identifier, bindings]) => [identifier, [...bindings]])),
+		namedBindings: new Map(Array.from(state.namedBindings, ([identifier, names]) => [identifier, new Map(names)])),
+		taggedBindings: new Map(Array.from(state.taggedBindings, ([tag, bindings]) => [tag, [...bindings]])),
+		stringToIdentifierMap: new Map(state.stringToIdentifierMap),
+		createdInstances: [...state.createdInstances],
+	};
+}
@@ -0,0 +1,99 @@
+import { ConfigIssue, DependencyIssue, ValidationIssue } from '../types';
+
+/**
+ * Thrown when the container detects a dependency cycle, either while resolving a service
+ * or during an upfront validation pass. The message lists the full resolution path,
+ * e.g. `A -> B -> C -> A`.
+ */
+export class CircularDependencyError extends Error {
+	/**
+	 * The names of the services forming the cycle, starting and ending with the same service.
+	 */
+	public readonly path: string[];
+
+	constructor(path: string[]) {
+		super(`Circular dependency detected: ${path.join(' -> ')}`);
+		this.name = 'CircularDependencyError';
+		this.path = path;
+	}
+}
+
+/**
+ * A service that could not be disposed, together with the reason.
+ */
+export interface DisposalFailure {
+	service: string;
+	error: unknown;
+}
+
+/**
+ * Thrown by `dispose()` when one or more services failed or timed out while being disposed.
+ * Disposal carries on past individual failures, so this error reports all of them at once.
+ */
+export class DisposalError extends Error {
+	public readonly failures: DisposalFailure[];
+
+	constructor(failures: DisposalFailure[]) {
+		const details = failures.map(({ service, error }) => `${service}: ${error instanceof Error ? error.message : String(error)}`);
+		super(`Failed to dispose ${failures.length} service(s): ${details.join('; ')}`);
+		this.name = 'DisposalError';
+		this.failures = failures;
+	}
+}
+
+/**
+ * Thrown by `Tmick.initialize({ strict: true })` when the dependency graph has problems.
+ * All issues are reported at once, one per line, so they can be fixed in a single pass.
+ */
+export class DependencyValidationError extends Error {
+	/**
+	 * The missing dependencies, cycles and captive dependencies that were found.
+	 */
+	public readonly issues: DependencyIssue[];
+
+	constructor(issues: DependencyIssue[]) {
+		super(`Dependency validation failed with ${issues.length} issue(s):\n${issues.map((issue) => `- ${issue.message}`).join('\n')}`);
+		this.name = 'DependencyValidationError';
+		this.issues = issues;
+	}
+}
+
+/**
+ * Thrown by `Tmick.initialize()` when the configuration does not match its schema.
+ * All issues are reported at once, one per line, so they can be fixed in a single pass.
+ */
+export class ConfigValidationError extends Error {
+	/**
+	 * The missing and invalid configuration values that were found.
+	 */
+	public readonly issues: ConfigIssue[];
+
+	constructor(issues: ConfigIssue[]) {
+		super(`Config validation failed with ${issues.length} issue(s):\n${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}`);
+		this.name = 'ConfigValidationError';
+		this.issues = issues;
+	}
+}
+
+/**
+ * Thrown by the dispatchers when a command or query breaks the rules declared on its properties
+ * with the validation decorators, before its handler is resolved. Every issue is reported at once.
+ */
+export class ValidationError extends Error {
+	/**
+	 * The name of the invalid command or query.
+	 */
+	public readonly target: string;
+
+	/**
+	 * The properties that break their rules.
+	 */
+	public readonly issues: ValidationIssue[];
+
+	constructor(target: string, issues: ValidationIssue[]) {
+		super(`Validation of '${target}' failed with ${issues.length} issue(s):\n${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}`);
+		this.name = 'ValidationError';
+		this.target = target;
+		this.issues = issues;
+	}
+}
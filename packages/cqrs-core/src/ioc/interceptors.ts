@@ -0,0 +1,61 @@
+import { IInterceptor, InvocationContext, ServiceConstructor, ServiceIdentifier } from '../types';
+import { getMetadata } from '../metadata/metadata-store';
+
+/**
+ * Wraps the methods of a freshly constructed service with its interceptors: the global ones first
+ * (unless skipped with @SkipInterceptors), then those of its class, then those of the method.
+ * Wrappers are defined on the instance itself, so `instanceof` and `this` are preserved.
+ * Lifecycle hooks are never intercepted, and interceptors are not intercepted by the global interceptors.
+ * Interceptors are resolved on the first intercepted call, so they may depend on the services they intercept.
+ * @param instance The constructed service.
+ * @param globalInterceptors The identifiers of the global interceptors.
+ * @param resolve Resolves an interceptor from its identifier.
+ */
+export function applyInterceptors(instance: object, globalInterceptors: ServiceIdentifier<IInterceptor>[], resolve: (identifier: ServiceIdentifier<IInterceptor>) => IInterceptor): void {
+	const service = instance as Record<PropertyKey, unknown>;
+	const serviceClass = instance.constructor as ServiceConstructor<unknown>;
+	const skipGlobal = typeof service.intercept === 'function' || getMetadata('cqrs:skip-interceptors', serviceClass) === true;
+	const classInterceptors: ServiceIdentifier<IInterceptor>[] = getMetadata('cqrs:interceptors', serviceClass) || [];
+
+	for (const methodName of getMethodNames(serviceClass)) {
+		const prototype = serviceClass.prototype;
+		const skipMethod = skipGlobal || getMetadata('cqrs:skip-interceptors', prototype, methodName) === true;
+		const methodInterceptors: ServiceIdentifier<IInterceptor>[] = getMetadata('cqrs:interceptors', prototype, methodName) || [];
+		const identifiers = [...(skipMethod ? [] : globalInterceptors), ...classInterceptors, ...methodInterceptors];
+		if (identifiers.length === 0) {
+			continue;
+		}
+
+		const method = service[methodName] as (...args: unknown[]) => unknown;
+		let interceptors: IInterceptor[] | undefined;
+		Object.defineProperty(instance, methodName, {
+			value: function (this: unknown, ...args: unknown[]) {
+				interceptors = interceptors ?? identifiers.map(resolve);
+				const chain = interceptors;
+				const context: InvocationContext = { instance: this, serviceClass, methodName, args };
+				const invoke = (index: number): unknown => (index === chain.length ? method.apply(this, context.args) : chain[index].intercept(context, () => invoke(index + 1)));
+				return invoke(0);
+			},
+			writable: true,
+			configurable: true,
+			enumerable: false,
+		});
+	}
+}
+
+/**
+ * Collects the names of the methods a class declares or inherits, except its constructor and lifecycle hooks.
+ */
+function getMethodNames(serviceClass: ServiceConstructor<unknown>): (string | symbol)[] {
+	const hooks = [getMetadata('cqrs:post-construct', serviceClass), getMetadata<{ methodName: string | symbol }>('cqrs:pre-destroy', serviceClass)?.methodName];
+	const names = new Set<string | symbol>();
+	for (let prototype = serviceClass.prototype; prototype && prototype !== Object.prototype; prototype = Object.getPrototypeOf(prototype)) {
+		for (const name of Reflect.ownKeys(prototype)) {
+			const descriptor = Object.getOwnPropertyDescriptor(prototype, name);
+			if (name !== 'constructor' && !hooks.includes(name) && typeof descriptor?.value === 'function') {
+				names.add(name);
+			}
+		}
+	}
+	return [...names];
+}
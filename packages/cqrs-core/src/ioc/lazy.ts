@@ -0,0 +1,56 @@
+import { DependencyDescriptor, ServiceIdentifier } from '../types';
+
+/**
+ * Creates a lazy dependency for `@Inject(lazy(token))`: a proxy is injected instead of the
+ * service, and the service is only resolved the first time the proxy is used.
+ * @param identifier The identifier of the dependency.
+ * @returns A DependencyDescriptor marking the dependency as lazy.
+ */
+export function lazy<T>(identifier: ServiceIdentifier<T>): DependencyDescriptor<T> {
+	return { identifier, lazy: true };
+}
+
+/**
+ * Creates a proxy standing in for a service until it is first used.
+ * Property reads, writes and checks are forwarded to the service, which is resolved once
+ * on first access; methods are bound to the service so `this` refers to the real instance.
+ * @param resolve Resolves the service.
+ * @returns The proxy.
+ */
+export function createLazyProxy<T extends object>(resolve: () => T): T {
+	let resolved = false;
+	let instance: T;
+
+	const target = (): T => {
+		if (!resolved) {
+			instance = resolve();
+			resolved = true;
+		}
+		return instance;
+	};
+
+	return new Proxy({} as T, {
+		get(_, property) {
+			const service = target();
+			const value = Reflect.get(service, property, service);
+			return typeof value === 'function' ? value.bind(service) : value;
+		},
+		set(_, property, value) {
+			return Reflect.set(target(), property, value);
+		},
+		has(_, property) {
+			return Reflect.has(target(), property);
+		},
+		ownKeys() {
+			return Reflect.ownKeys(target());
+		},
+		getOwnPropertyDescriptor(_, property) {
+			const descriptor = Reflect.getOwnPropertyDescriptor(target(), property);
+			// The proxy target is an empty, extensible object, so reported properties must be configurable
+			return descriptor ? { ...descriptor, configurable: true } : undefined;
+		},
+		getPrototypeOf() {
+			return Reflect.getPrototypeOf(target());
+		},
+	});
+}
@@ -0,0 +1,40 @@
+import { InjectableMetadata, IServiceContainer, ServiceConstructor, ServiceIdentifier } from '../types';
+import { getMetadata } from '../metadata/metadata-store';
+
+/**
+ * Registers a class with a container according to its @Injectable metadata: under the class itself and,
+ * if it has a specific identifier from @Injectable({ id: ... }), under that identifier too.
+ * Classes without metadata are registered as singletons under the class only.
+ * @param container The container to register the class with.
+ * @param serviceClass The class to register.
+ * @returns The identifiers the class can be resolved with.
+ */
+export function registerInjectableClass(container: IServiceContainer, serviceClass: ServiceConstructor<unknown>): ServiceIdentifier<unknown>[] {
+	const injectableMetadata = getMetadata<InjectableMetadata>('cqrs:injectable-service', serviceClass);
+	// Default to singleton if no explicit lifecycle decorator is present
+	const singleton = injectableMetadata?.singleton ?? true;
+	const scoped = injectableMetadata?.scoped ?? false;
+
+	// Pre-resolve metadata dependencies for the class
+	const metadataDependencies = container.getMetadataDependencies(serviceClass);
+	const canonicalDependencies = metadataDependencies.map((dep) => container.getCanonicalDependency(dep));
+
+	// Register the class with the container using its resolved dependencies.
+	container.registerConstructor(serviceClass, serviceClass, singleton, canonicalDependencies, scoped);
+	if (!injectableMetadata || !injectableMetadata.id) {
+		return [serviceClass];
+	}
+
+	// With a `name` the class becomes the named implementation of its identifier,
+	// and with `multi: true` it is added to the implementations of that identifier.
+	if (injectableMetadata.name !== undefined) {
+		container.registerNamed(injectableMetadata.id, injectableMetadata.name, serviceClass, singleton, scoped);
+	} else if (injectableMetadata.id === serviceClass) {
+		return [serviceClass];
+	} else if (injectableMetadata.multi) {
+		container.registerMany(injectableMetadata.id, [serviceClass], singleton, scoped);
+	} else {
+		container.registerConstructor(injectableMetadata.id, serviceClass, singleton, canonicalDependencies, scoped);
+	}
+	return [serviceClass, injectableMetadata.id];
+}
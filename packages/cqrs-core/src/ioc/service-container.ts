@@ -1,5 +1,20 @@
-import { ServiceIdentifier, ServiceFactory, ServiceConstructor, IServiceContainer, ICustomContainer } from '../types';
+import {
+	ServiceIdentifier,
+	ServiceDependency,
+	ServiceFactory,
+	AsyncServiceFactory,
+	ServiceConstructor,
+	IServiceContainer,
+	ICustomContainer,
+	DisposeOptions,
+	DependencyIssue,
+	DependencyGraph,
+	ContainerSnapshot,
+	IInterceptor,
+	Provider,
+} from '../types';
 import { CustomContainer } from './custom-container';
+import { ISERVICECONTAINER_TOKEN } from '../tokens';
 
 /**
  * Implements the public-facing IServiceContainer interface,
@@ -9,8 +24,11 @@ import { CustomContainer } from './custom-container';
 export class CustomServiceContainer implements IServiceContainer {
 	private container: ICustomContainer;
 
-	constructor() {
-		this.container = new CustomContainer();
+	/**
+	 * @param container The low-level container to wrap. A fresh root container is created when omitted.
+	 */
+	constructor(container?: ICustomContainer) {
+		this.container = container || new CustomContainer();
 	}
 
 	/**
@@ -18,9 +36,21 @@ export class CustomServiceContainer implements IServiceContainer {
 	 * @param identifier The unique identifier for the service.
 	 * @param factory The factory function to create the service instance.
 	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 */
-	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton = true): void {
-		this.container.registerFactory(identifier, factory, singleton);
+	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton = true, scoped = false): void {
+		this.container.registerFactory(identifier, factory, singleton, scoped);
+	}
+
+	/**
+	 * Registers a service using an asynchronous factory function.
+	 * @param identifier The unique identifier for the service.
+	 * @param factory The factory function returning a Promise of the service instance.
+	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
+	 */
+	registerAsyncFactory<T>(identifier: ServiceIdentifier<T>, factory: AsyncServiceFactory<T>, singleton = true, scoped = false): void {
+		this.container.registerAsyncFactory(identifier, factory, singleton, scoped);
 	}
 
 	/**
@@ -38,9 +68,10 @@ export class CustomServiceContainer implements IServiceContainer {
 	 * @param constructor The constructor function of the service class.
 	 * @param singleton Whether the service should be a singleton (default: true).
 	 * @param canonicalDependencies Pre-resolved canonical dependencies for the constructor.
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 */
-	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton = true, canonicalDependencies?: ServiceIdentifier[]): void {
-		this.container.registerConstructor(identifier, constructor, singleton, canonicalDependencies);
+	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton = true, canonicalDependencies?: ServiceDependency[], scoped = false): void {
+		this.container.registerConstructor(identifier, constructor, singleton, canonicalDependencies, scoped);
 	}
 
 	/**
@@ -48,12 +79,24 @@ export class CustomServiceContainer implements IServiceContainer {
 	 * It will resolve metadata dependencies automatically.
 	 * @param constructor The constructor function of the service class.
 	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 */
-	registerByClass<T>(constructor: ServiceConstructor<T>, singleton = true): void {
+	registerByClass<T>(constructor: ServiceConstructor<T>, singleton = true, scoped = false): void {
 		const metadataDependencies = this.container.getMetadataDependencies(constructor);
 		// Pre-resolve metadata dependencies to their canonical identifiers once at registration
-		const canonicalDependencies = metadataDependencies.map((dep) => this.container.getCanonicalIdentifier(dep));
-		this.container.registerConstructor(constructor, constructor, singleton, canonicalDependencies);
+		const canonicalDependencies = metadataDependencies.map((dep) => this.container.getCanonicalDependency(dep));
+		this.container.registerConstructor(constructor, constructor, singleton, canonicalDependencies, scoped);
+	}
+
+	/**
+	 * Registers several implementations under one identifier.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param constructors The implementation classes.
+	 * @param singleton Whether the implementations should be singletons (default: true).
+	 * @param scoped Whether the implementations should be created once per scope (default: false).
+	 */
+	registerMany<T>(identifier: ServiceIdentifier<T>, constructors: ServiceConstructor<T>[], singleton = true, scoped = false): void {
+		this.container.registerMany(identifier, constructors, singleton, scoped);
 	}
 
 	/**
@@ -65,6 +108,71 @@ export class CustomServiceContainer implements IServiceContainer {
 		return this.container.get<T>(identifier);
 	}
 
+	/**
+	 * Registers a named implementation of an identifier, e.g. the 'primary' repository.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param name The name that selects this implementation.
+	 * @param constructor The implementation class.
+	 * @param singleton Whether the implementation should be a singleton (default: true).
+	 * @param scoped Whether the implementation should be created once per scope (default: false).
+	 */
+	registerNamed<T>(identifier: ServiceIdentifier<T>, name: string, constructor: ServiceConstructor<T>, singleton = true, scoped = false): void {
+		this.container.registerNamed(identifier, name, constructor, singleton, scoped);
+	}
+
+	/**
+	 * Registers a provider object: `{ provide, useValue }`, `{ provide, useClass }`,
+	 * `{ provide, useFactory, inject }` or `{ provide, useExisting }`.
+	 * @param provider The provider object.
+	 */
+	registerProvider<T>(provider: Provider<T>): void {
+		this.container.registerProvider(provider);
+	}
+
+	/**
+	 * Retrieves the implementation registered under a name for an identifier.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param name The name of the implementation.
+	 * @returns The resolved implementation.
+	 */
+	getNamed<T>(identifier: ServiceIdentifier<T>, name: string): T {
+		return this.container.getNamed<T>(identifier, name);
+	}
+
+	/**
+	 * Retrieves every service whose class is decorated with the given @Tag.
+	 * @param tag The tag to look up.
+	 * @returns The resolved services; empty if none carry the tag.
+	 */
+	getTagged<T>(tag: string): T[] {
+		return this.container.getTagged<T>(tag);
+	}
+
+	/**
+	 * Retrieves every implementation registered under an identifier.
+	 * @param identifier The identifier shared by the implementations.
+	 * @returns The resolved implementations; empty if none are registered.
+	 */
+	getAll<T>(identifier: ServiceIdentifier<T>): T[] {
+		return this.container.getAll<T>(identifier);
+	}
+
+	/**
+	 * Asynchronously retrieves a service instance, awaiting async factories and @PostConstruct hooks.
+	 * @param identifier The unique identifier of the service to retrieve.
+	 * @returns A Promise resolving to the service instance.
+	 */
+	getAsync<T>(identifier: ServiceIdentifier<T>): Promise<T> {
+		return this.container.getAsync<T>(identifier);
+	}
+
+	/**
+	 * Resolves all async singletons so they can afterwards be retrieved synchronously.
+	 */
+	initializeAsync(): Promise<void> {
+		return this.container.initializeAsync();
+	}
+
 	/**
 	 * Checks if a service is registered in the container.
 	 * @param identifier The unique identifier of the service.
@@ -74,6 +182,83 @@ export class CustomServiceContainer implements IServiceContainer {
 		return this.container.has(identifier);
 	}
 
+	/**
+	 * Creates a child container that inherits every registration of this container.
+	 * Scoped services are cached per scope, and the scope resolves `ISERVICECONTAINER_TOKEN` to itself.
+	 * @returns The new scope, which should be disposed once the unit of work (e.g. an HTTP request) ends.
+	 */
+	createScope(): IServiceContainer {
+		const scope = new CustomServiceContainer(this.container.createScope());
+		scope.registerValue(ISERVICECONTAINER_TOKEN, scope);
+		return scope;
+	}
+
+	/**
+	 * Disposes the container, disposing every singleton or scoped instance it created in reverse creation order.
+	 * @param options Disposal options, e.g. the default per-service timeout.
+	 * @throws DisposalError listing every service that failed or timed out.
+	 */
+	dispose(options?: DisposeOptions): Promise<void> {
+		return this.container.dispose(options);
+	}
+
+	/**
+	 * Checks the registered services for dependency cycles without constructing anything.
+	 * @throws CircularDependencyError if a cycle is found.
+	 */
+	validate(): void {
+		this.container.validate();
+	}
+
+	/**
+	 * Reports missing dependencies, cycles and captive dependencies without constructing anything.
+	 * @returns The issues found; empty if the dependency graph is sound.
+	 */
+	analyze(): DependencyIssue[] {
+		return this.container.analyze();
+	}
+
+	/**
+	 * Describes the registered services and their declared dependencies.
+	 * @returns The dependency graph.
+	 */
+	getDependencyGraph(): DependencyGraph {
+		return this.container.getDependencyGraph();
+	}
+
+	/**
+	 * Removes the registration of a service from this container, together with its cached instance.
+	 * @param identifier The unique identifier of the service.
+	 * @returns True if the service was registered in this container (not only in an ancestor).
+	 */
+	unregister<T>(identifier: ServiceIdentifier<T>): boolean {
+		return this.container.unregister(identifier);
+	}
+
+	/**
+	 * Copies the registrations and cached instances of this container, e.g. before a test.
+	 * @returns The snapshot to pass to `restore()`.
+	 */
+	snapshot(): ContainerSnapshot {
+		return this.container.snapshot();
+	}
+
+	/**
+	 * Puts back the registrations and cached instances copied by `snapshot()`, e.g. after a test.
+	 * @param snapshot The snapshot taken from this container.
+	 */
+	restore(snapshot: ContainerSnapshot): void {
+		this.container.restore(snapshot);
+	}
+
+	/**
+	 * Registers interceptors wrapping the methods of every service constructed from a class from now on.
+	 * @param interceptors The identifiers of the interceptors, outermost first.
+	 */
+	addInterceptors(...interceptors: ServiceIdentifier<IInterceptor>[]): void {
+		this.container.addInterceptors(...interceptors);
+	}
+
 	/**
 	 * Clears all registered services and cached instances.
 	 */
@@ -101,9 +286,9 @@ export class CustomServiceContainer implements IServiceContainer {
 	 * Exposes the underlying container's method to get dependency metadata from a class.
 	 * This is primarily used by the `Tmick` class during auto-scanning.
 	 * @param constructor The service constructor.
-	 * @returns An array of ServiceIdentifiers representing the constructor's dependencies.
+	 * @returns An array of ServiceDependencies representing the constructor's dependencies.
 	 */
-	public getMetadataDependencies(constructor: ServiceConstructor<any>): ServiceIdentifier[] {
+	public getMetadataDependencies(constructor: ServiceConstructor<any>): ServiceDependency[] {
 		return this.container.getMetadataDependencies(constructor);
 	}
 
@@ -116,4 +301,13 @@ export class CustomServiceContainer implements IServiceContainer {
 	public getCanonicalIdentifier<T>(identifier: ServiceIdentifier<T>): ServiceIdentifier<T> {
 		return this.container.getCanonicalIdentifier(identifier);
 	}
+
+	/**
+	 * Exposes the underlying container's method to canonicalize a dependency, keeping its injection options.
+	 * @param dependency The dependency identifier or descriptor.
+	 * @returns The canonical dependency.
+	 */
+	public getCanonicalDependency(dependency: ServiceDependency): ServiceDependency {
+		return this.container.getCanonicalDependency(dependency);
+	}
 }
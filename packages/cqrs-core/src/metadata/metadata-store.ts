@@ -0,0 +1,127 @@
+import { StandardDecoratorContext } from '../types';
+
+// Standard decorators only receive a metadata object when `Symbol.metadata` exists as the class is defined,
+// which is not yet the case in Node.js. Classes are decorated after Tmick is imported, so defining it here is early enough.
+// It is defined like the other well-known symbols, except that it stays configurable so a later native one can replace it.
+if (typeof (Symbol as typeof Symbol & { metadata?: symbol }).metadata !== 'symbol') {
+	Object.defineProperty(Symbol, 'metadata', { value: Symbol('Symbol.metadata'), writable: false, enumerable: false, configurable: true });
+}
+
+// Metadata recorded while the reflect-metadata polyfill is not loaded, by target then by property
+const store = new WeakMap<object, Map<string | symbol | undefined, Map<string, unknown>>>();
+
+/**
+ * Whether the reflect-metadata polyfill (or another implementation of its API) is loaded.
+ */
+function hasReflectMetadata(): boolean {
+	return typeof Reflect !== 'undefined' && typeof Reflect.defineMetadata === 'function' && typeof Reflect.getOwnMetadata === 'function';
+}
+
+/**
+ * Records metadata on a class, a prototype or the metadata object of a standard decorator.
+ * The reflect-metadata polyfill is used when it is loaded, so the metadata stays visible through
+ * `Reflect.getMetadata()`; otherwise it is kept in an internal store.
+ * @param key The metadata key, e.g. 'cqrs:injectable-service'.
+ * @param value The metadata value.
+ * @param target The object the metadata belongs to.
+ * @param propertyKey The member the metadata belongs to, if any.
+ */
+export function defineMetadata(key: string, value: unknown, target: object, propertyKey?: string | symbol): void {
+	if (hasReflectMetadata()) {
+		Reflect.defineMetadata(key, value, target, propertyKey as string | symbol);
+		return;
+	}
+
+	const members = store.get(target) || new Map<string | symbol | undefined, Map<string, unknown>>();
+	const entries = members.get(propertyKey) || new Map<string, unknown>();
+	entries.set(key, value);
+	members.set(propertyKey, entries);
+	store.set(target, members);
+}
+
+/**
+ * Retrieves metadata recorded on the target itself, or on the metadata object standard decorators
+ * shared for its class (when the target is a class or its prototype).
+ * @param key The metadata key.
+ * @param target The class or prototype.
+ * @param propertyKey The member the metadata belongs to, if any.
+ * @returns The metadata value, or undefined if none was recorded.
+ */
+export function getOwnMetadata<T = unknown>(key: string, target: object, propertyKey?: string | symbol): T | undefined {
+	const value = getRecordedMetadata<T>(key, target, propertyKey);
+	if (value !== undefined) {
+		return value;
+	}
+
+	const metadataObject = getStandardMetadataObject(target);
+	return metadataObject ? getRecordedMetadata<T>(key, metadataObject, propertyKey) : undefined;
+}
+
+/**
+ * Retrieves metadata recorded on the target or the first of its prototypes (base classes) that has it.
+ * @param key The metadata key.
+ * @param target The class or prototype.
+ * @param propertyKey The member the metadata belongs to, if any.
+ * @returns The metadata value, or undefined if none was recorded.
+ */
+export function getMetadata<T = unknown>(key: string, target: object, propertyKey?: string | symbol): T | undefined {
+	for (let current: object | null = target; current; current = Object.getPrototypeOf(current)) {
+		const value = getOwnMetadata<T>(key, current, propertyKey);
+		if (value !== undefined) {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Checks whether metadata was recorded on the target or one of its prototypes.
+ * @param key The metadata key.
+ * @param target The class or prototype.
+ * @param propertyKey The member the metadata belongs to, if any.
+ * @returns True if the metadata exists.
+ */
+export function hasMetadata(key: string, target: object, propertyKey?: string | symbol): boolean {
+	return getMetadata(key, target, propertyKey) !== undefined;
+}
+
+/**
+ * Whether a decorator is applied as a standard (TC39) decorator, i.e. receives a context object
+ * as its second argument instead of a property key.
+ * @param contextOrPropertyKey The second argument of the decorator.
+ */
+export function isStandardDecoratorContext(contextOrPropertyKey: unknown): contextOrPropertyKey is StandardDecoratorContext {
+	return typeof contextOrPropertyKey === 'object' && contextOrPropertyKey !== null && typeof (contextOrPropertyKey as StandardDecoratorContext).kind === 'string';
+}
+
+/**
+ * Returns the object a standard member decorator records class metadata on: the metadata object of the class.
+ * @param context The context of the standard decorator.
+ * @throws Error if the runtime did not provide a metadata object.
+ */
+export function getDecoratorMetadataObject(context: StandardDecoratorContext): object {
+	if (!context.metadata) {
+		throw new Error(`Cannot decorate '${String(context.name)}': the decorator received no metadata object. Import Tmick before declaring decorated classes.`);
+	}
+	return context.metadata;
+}
+
+/**
+ * Reads metadata from reflect-metadata and, for metadata recorded before it was loaded, from the internal store.
+ */
+function getRecordedMetadata<T>(key: string, target: object, propertyKey?: string | symbol): T | undefined {
+	const reflected = hasReflectMetadata() ? Reflect.getOwnMetadata(key, target, propertyKey as string | symbol) : undefined;
+	return reflected !== undefined ? reflected : (store.get(target)?.get(propertyKey)?.get(key) as T | undefined);
+}
+
+/**
+ * Helper to find the metadata object standard decorators filled for the class of a target, if the class owns one.
+ */
+function getStandardMetadataObject(target: object): object | undefined {
+	const owner = typeof target === 'function' ? target : Object.prototype.hasOwnProperty.call(target, 'constructor') ? (target as { constructor: unknown }).constructor : undefined;
+	const { metadata } = Symbol as typeof Symbol & { metadata: symbol };
+	if (typeof owner !== 'function' || !Object.prototype.hasOwnProperty.call(owner, metadata)) {
+		return undefined;
+	}
+	return (owner as unknown as Record<symbol, object | null>)[metadata] ?? undefined;
+}
@@ -0,0 +1,175 @@
+import { IServiceContainer, ModuleOptions, Provider, ServiceConstructor, ServiceDependency, ServiceIdentifier, isDependencyDescriptor } from '../types';
+import { registerInjectableClass } from '../ioc/registration';
+import { getMetadata } from '../metadata/metadata-store';
+
+/**
+ * A module of the application tree together with the container holding its providers.
+ */
+export interface LoadedModule {
+	module: ServiceConstructor<unknown>; // The class decorated with @Module
+	container: IServiceContainer; // Holds the providers and handlers of the module
+	handlers: ServiceConstructor<unknown>[]; // The handlers to register with the dispatchers
+	exports: ServiceIdentifier<unknown>[]; // The identifiers importing modules can inject
+}
+
+/**
+ * Builds the module tree of an application. Each module gets its own scope of the application
+ * container: providers are registered there, so they are invisible to other modules unless exported.
+ * Exported providers are made available to importing modules by delegating to the exporting module.
+ */
+export class ModuleLoader {
+	// Modules loaded so far, imports before the modules importing them
+	private loaded: LoadedModule[] = [];
+
+	// Modules whose imports are being loaded, outermost first
+	private loading: ServiceConstructor<unknown>[] = [];
+
+	// The module providing each registered identifier, used to report visibility errors
+	private providedBy = new Map<ServiceIdentifier<unknown>, ServiceConstructor<unknown>>();
+
+	/**
+	 * @param root The application container; module containers are created as its scopes.
+	 * @param isActive Decides whether a provider or handler is registered (e.g. from its @Profile).
+	 */
+	constructor(
+		private readonly root: IServiceContainer,
+		private readonly isActive: (serviceClass: ServiceConstructor<unknown>) => boolean
+	) {}
+
+	/**
+	 * Loads a module and, recursively, the modules it imports. Each module is loaded once,
+	 * even when it is imported by several modules.
+	 * @param rootModule The root module of the application.
+	 * @returns The loaded modules, imports before the modules importing them.
+	 * @throws Error if a module is not decorated with @Module, imports are circular, a module exports
+	 * something it neither provides nor imports, or a provider injects a service another module does not export to it.
+	 */
+	load(rootModule: ServiceConstructor<unknown>): LoadedModule[] {
+		this.loadModule(rootModule);
+		this.loaded.forEach((loadedModule) => this.checkVisibility(loadedModule));
+		return this.loaded;
+	}
+
+	/**
+	 * Loads a single module after its imports.
+	 */
+	private loadModule(moduleClass: ServiceConstructor<unknown>): LoadedModule {
+		const existing = this.loaded.find((loadedModule) => loadedModule.module === moduleClass);
+		if (existing) {
+			return existing;
+		}
+
+		const cycleStart = this.loading.indexOf(moduleClass);
+		if (cycleStart !== -1) {
+			const cycle = [...this.loading.slice(cycleStart), moduleClass];
+			throw new Error(`Circular module import detected: ${cycle.map((module) => module.name).join(' -> ')}`);
+		}
+
+		const options: ModuleOptions | undefined = getMetadata('cqrs:module', moduleClass);
+		if (!options) {
+			throw new Error(`Class '${moduleClass.name}' is not a module. Decorate it with @Module().`);
+		}
+
+		this.loading.push(moduleClass);
+		const imports = (options.imports || []).map((importedModule) => this.loadModule(importedModule));
+		this.loading.pop();
+
+		const container = this.root.createScope();
+		const visible = new Set<ServiceIdentifier<unknown>>();
+
+		// Exports of imported modules are resolved from the module providing them, so they keep their lifetime
+		for (const importedModule of imports) {
+			for (const identifier of importedModule.exports.filter((exported) => !visible.has(exported))) {
+				container.registerFactory(identifier, () => importedModule.container.get(identifier), false);
+				visible.add(identifier);
+			}
+		}
+
+		const handlers = (options.handlers || []).filter((handler) => this.isActive(handler));
+		for (const provider of [...this.getActiveProviders(options), ...handlers]) {
+			const identifiers = typeof provider === 'function' ? registerInjectableClass(container, provider) : [provider.provide];
+			if (typeof provider !== 'function') {
+				container.registerProvider(provider);
+			}
+			for (const identifier of identifiers) {
+				const canonicalIdentifier = container.getCanonicalIdentifier(identifier);
+				visible.add(canonicalIdentifier);
+				this.providedBy.set(canonicalIdentifier, moduleClass);
+			}
+		}
+
+		const exports: ServiceIdentifier<unknown>[] = [];
+		for (const exported of options.exports || []) {
+			// Exporting an imported module re-exports everything it exports
+			const reexported = imports.find((importedModule) => importedModule.module === exported);
+			if (reexported) {
+				exports.push(...reexported.exports);
+				continue;
+			}
+
+			const canonicalIdentifier = container.getCanonicalIdentifier(exported);
+			if (!visible.has(canonicalIdentifier)) {
+				throw new Error(`Module '${moduleClass.name}' cannot export '${describe(exported)}' because it neither provides nor imports it.`);
+			}
+			exports.push(canonicalIdentifier);
+		}
+
+		const loadedModule: LoadedModule = { module: moduleClass, container, handlers, exports };
+		this.loaded.push(loadedModule);
+		return loadedModule;
+	}
+
+	/**
+	 * Fails fast when a provider or handler of a module injects a service that another module
+	 * provides but does not export to it, instead of failing when the service is first resolved.
+	 */
+	private checkVisibility(loadedModule: LoadedModule): void {
+		const options: ModuleOptions = getMetadata('cqrs:module', loadedModule.module) || {};
+		for (const service of [...this.getActiveProviders(options), ...loadedModule.handlers]) {
+			for (const dependency of this.getProviderDependencies(loadedModule.container, service)) {
+				if (isDependencyDescriptor(dependency) && dependency.optional) {
+					continue;
+				}
+
+				const identifier = isDependencyDescriptor(dependency) ? dependency.identifier : dependency;
+				const canonicalIdentifier = loadedModule.container.getCanonicalIdentifier(identifier);
+				const provider = this.providedBy.get(canonicalIdentifier);
+				if (provider && provider !== loadedModule.module && !loadedModule.container.has(canonicalIdentifier)) {
+					throw new Error(
+						`Service '${describe(identifier)}' required by '${typeof service === 'function' ? service.name : describe(service.provide)}' in module '${loadedModule.module.name}' is provided by module '${provider.name}', which does not export it to '${loadedModule.module.name}'.`
+					);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Lists the providers of a module to register: provider objects, and classes whose @Profile and @ConditionalOn conditions match.
+	 */
+	private getActiveProviders(options: ModuleOptions): (ServiceConstructor<unknown> | Provider)[] {
+		return (options.providers || []).filter((provider) => typeof provider !== 'function' || this.isActive(provider));
+	}
+
+	/**
+	 * Lists the dependencies of a provider class or object, as declared to the container.
+	 */
+	private getProviderDependencies(container: IServiceContainer, provider: ServiceConstructor<unknown> | Provider): ServiceDependency[] {
+		if (typeof provider === 'function') {
+			return container.getMetadataDependencies(provider);
+		}
+		if ('useClass' in provider) {
+			return container.getMetadataDependencies(provider.useClass);
+		}
+		if ('useFactory' in provider) {
+			return provider.inject || [];
+		}
+		return 'useExisting' in provider ? [provider.useExisting] : [];
+	}
+}
+
+/**
+ * Helper to get a human-readable name for a ServiceIdentifier in error messages.
+ */
+function describe(identifier: ServiceIdentifier<unknown>): string {
+	return typeof identifier === 'string' ? identifier : identifier.name;
+}
@@ -1,16 +1,51 @@
 /* eslint-disable indent */
-import { ServiceConstructor, HandlerRegistration } from '../types';
+import { ServiceConstructor, HandlerRegistration, HandlerMetadata } from '../types';
+import { getMetadata } from '../metadata/metadata-store';
 
 /**
- * A static registry for mapping Commands, Queries, and Events to their respective handler classes.
- * Also keeps track of all classes marked with @Injectable (or handler decorators which imply it)
- * for auto-scanning by the Tmick framework.
+ * A registry mapping Commands, Queries, and Events to their respective handler classes.
+ * Each Tmick application owns one, so several applications (e.g. an API and a worker) can
+ * coexist in one process with different handlers.
+ *
+ * Decorators only write metadata: @Injectable and the handler decorators add the class to a
+ * static catalog of discovered classes, which `Tmick.autoScanAndRegisters()` scans when the
+ * application is not given an explicit list of handlers and providers.
  */
 export class HandlerRegistry {
-	private static commandHandlersMap = new Map<string, ServiceConstructor<any>>();
-	private static queryHandlersMap = new Map<string, ServiceConstructor<any>>();
-	private static eventHandlersMap = new Map<string, ServiceConstructor<any>[]>();
-	private static serviceClasses: ServiceConstructor<any>[] = [];
+	// Classes discovered by @Injectable and the handler decorators, shared by every application
+	private static discoveredClasses: ServiceConstructor<unknown>[] = [];
+
+	private commandHandlersMap = new Map<string, ServiceConstructor<unknown>>();
+	private queryHandlersMap = new Map<string, ServiceConstructor<unknown>>();
+	private eventHandlersMap = new Map<string, ServiceConstructor<unknown>[]>();
+	private serviceClasses: ServiceConstructor<unknown>[] = [];
+
+	/**
+	 * Adds a class marked with @Injectable (or a handler decorator) to the catalog of discovered classes.
+	 * Ensures each class is added only once.
+	 * @param serviceClass The class constructor.
+	 */
+	static registerServiceClass(serviceClass: ServiceConstructor<unknown>) {
+		if (!this.discoveredClasses.includes(serviceClass)) {
+			this.discoveredClasses.push(serviceClass);
+		}
+	}
+
+	/**
+	 * Retrieves all classes discovered so far by the decorators (e.g., @Injectable, @CommandHandler).
+	 * @returns An array of service class constructors.
+	 */
+	static getServiceClasses(): ServiceConstructor<unknown>[] {
+		return this.discoveredClasses;
+	}
+
+	/**
+	 * Clears the catalog of discovered classes. Registries owned by applications are not affected.
+	 * Useful for testing, so classes declared by one test are not scanned by the next.
+	 */
+	static clear() {
+		this.discoveredClasses = [];
+	}
 
 	/**
 	 * Registers a handler class for a specific command, query, or event type.
@@ -19,7 +54,7 @@ export class HandlerRegistry {
 	 * @param handlerType The type of handler ('command', 'query', or 'event').
 	 * @throws Error if a command or query handler is already registered for the given type.
 	 */
-	static register(handlerClass: ServiceConstructor<any>, targetType: string, handlerType: 'command' | 'query' | 'event') {
+	register(handlerClass: ServiceConstructor<unknown>, targetType: string, handlerType: 'command' | 'query' | 'event') {
 		switch (handlerType) {
 			case 'command':
 				if (this.commandHandlersMap.has(targetType)) {
@@ -40,16 +75,26 @@ export class HandlerRegistry {
 				break;
 		}
 
-		// Ensure that any class registered as a handler is also marked as a service class for auto-scanning.
-		this.registerServiceClass(handlerClass);
+		// Ensure that any class registered as a handler is also listed as a service class of this registry.
+		if (!this.serviceClasses.includes(handlerClass)) {
+			this.serviceClasses.push(handlerClass);
+		}
 	}
 
 	/**
-	 * Registers a class marked with @Injectable for auto-scanning by the framework.
+	 * Registers a service class with this registry, together with the handlers its
+	 * decorators (@CommandHandler, @QueryHandler, @EventHandler) declare.
 	 * Ensures each class is registered only once.
 	 * @param serviceClass The class constructor.
+	 * @throws Error if a command or query handler is already registered for a type the class handles.
 	 */
-	static registerServiceClass(serviceClass: ServiceConstructor<any>) {
+	registerServiceClass(serviceClass: ServiceConstructor<unknown>) {
+		if (this.serviceClasses.includes(serviceClass)) {
+			return;
+		}
+
+		const handlerMetadata: HandlerMetadata[] = getMetadata('cqrs:handlers', serviceClass) || [];
+		handlerMetadata.forEach((metadata) => this.register(serviceClass, metadata.targetType, metadata.handlerType));
 		if (!this.serviceClasses.includes(serviceClass)) {
 			this.serviceClasses.push(serviceClass);
 		}
@@ -59,7 +104,7 @@ export class HandlerRegistry {
 	 * Retrieves all registered command, query, and event handlers.
 	 * @returns An array of HandlerRegistration objects.
 	 */
-	static getRegistrations(): HandlerRegistration[] {
+	getRegistrations(): HandlerRegistration[] {
 		const all: HandlerRegistration[] = [];
 		this.commandHandlersMap.forEach((handlerClass, targetType) => all.push({ handlerClass, targetType, handlerType: 'command' }));
 		this.queryHandlersMap.forEach((handlerClass, targetType) => all.push({ handlerClass, targetType, handlerType: 'query' }));
@@ -68,10 +113,10 @@ export class HandlerRegistry {
 	}
 
 	/**
-	 * Retrieves all classes that have been marked for auto-scanning (e.g., via @Injectable, @CommandHandler).
+	 * Retrieves all service classes registered with this registry, handlers included.
 	 * @returns An array of service class constructors.
 	 */
-	static getServiceClasses(): ServiceConstructor<any>[] {
+	getServiceClasses(): ServiceConstructor<unknown>[] {
 		return this.serviceClasses;
 	}
 
@@ -79,7 +124,7 @@ export class HandlerRegistry {
 	 * Gets the map of registered command handlers.
 	 * @returns A Map where keys are command names (strings) and values are handler constructors.
 	 */
-	static getCommandHandlersMap(): Map<string, ServiceConstructor<any>> {
+	getCommandHandlersMap(): Map<string, ServiceConstructor<unknown>> {
 		return this.commandHandlersMap;
 	}
 
@@ -87,7 +132,7 @@ export class HandlerRegistry {
 	 * Gets the map of registered query handlers.
 	 * @returns A Map where keys are query names (strings) and values are handler constructors.
 	 */
-	static getQueryHandlersMap(): Map<string, ServiceConstructor<any>> {
+	getQueryHandlersMap(): Map<string, ServiceConstructor<unknown>> {
 		return this.queryHandlersMap;
 	}
 
@@ -95,15 +140,14 @@ export class HandlerRegistry {
 	 * Gets the map of registered event handlers.
 	 * @returns A Map where keys are event names (strings) and values are arrays of handler constructors.
 	 */
-	static getEventHandlersMap(): Map<string, ServiceConstructor<any>[]> {
+	getEventHandlersMap(): Map<string, ServiceConstructor<unknown>[]> {
 		return this.eventHandlersMap;
 	}
 
 	/**
-	 * Clears all registrations and cached service classes.
-	 * Useful for testing or framework reset.
+	 * Clears all registrations of this registry.
 	 */
-	static clear() {
+	clear() {
 		this.commandHandlersMap.clear();
 		this.queryHandlersMap.clear();
 		this.eventHandlersMap.clear();
@@ -0,0 +1,52 @@
+import { ApiFailure, ApiResult } from '@tmasterd/result';
+import { ErrorMapper, ICommand, IQuery } from '../types';
+import { ValidationError } from '../ioc/errors';
+
+/**
+ * Turns an error thrown while a command or query was handled into a failure: the first failure
+ * returned by the mappers wins; otherwise a ValidationError becomes `unprocessableEntity` (with its
+ * issues as details), and any other error `internalServerError` (with the error as details).
+ * A mapper that throws turns the error into an `internalServerError` holding the error of the mapper.
+ * @param error The thrown error.
+ * @param message The command or query that failed.
+ * @param mappers The error mappers, tried in order.
+ * @returns The failure.
+ */
+export function mapErrorToFailure(error: unknown, message: ICommand | IQuery<unknown>, mappers: ErrorMapper[] = []): ApiFailure<unknown> {
+	for (const mapper of mappers) {
+		let failure: ApiFailure<unknown> | undefined;
+		try {
+			failure = mapper(error, message);
+		} catch (mapperError) {
+			return internalServerError(mapperError);
+		}
+		if (failure) {
+			return failure;
+		}
+	}
+
+	if (error instanceof ValidationError) {
+		return ApiResult.unprocessableEntity(error.message, error.issues);
+	}
+	return internalServerError(error);
+}
+
+/**
+ * Runs the handling of a command or query and wraps its outcome in an ApiResult, so that it never throws.
+ * @param message The command or query.
+ * @param handle Handles the message.
+ * @param mappers The error mappers turning errors into failures, see `mapErrorToFailure()`.
+ * @returns An `ok` success holding the result of the handler, or the failure the error was mapped to.
+ */
+export async function toApiResult<TResult>(message: ICommand | IQuery<unknown>, handle: () => Promise<TResult>, mappers: ErrorMapper[] = []): Promise<ApiResult<TResult, unknown>> {
+	try {
+		const data = await handle();
+		return ApiResult.ok(`${message.constructor.name} handled successfully.`, data);
+	} catch (error) {
+		return mapErrorToFailure(error, message, mappers);
+	}
+}
+
+function internalServerError(error: unknown): ApiFailure<unknown> {
+	return ApiResult.internalServerError(error instanceof Error ? error.message : String(error), error);
+}
@@ -0,0 +1,67 @@
+import { HandlerMetadata, RetryContext, RetryObserver, RetryPolicy, ServiceConstructor } from '../types';
+
+/**
+ * Computes the delay before the attempt following a failed one: `delayMs`, doubled after each attempt
+ * with the exponential backoff, capped at `maxDelayMs` and shortened by a random share with `jitter`.
+ * @param policy The retry policy.
+ * @param attempt The number of the failed attempt, 1 for the first one.
+ * @param random Draws the random share of the jitter, between 0 and 1 (default: Math.random).
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+	const { backoff = 'fixed', delayMs = 100, maxDelayMs = 30000, jitter = false } = policy;
+	const delay = Math.min(backoff === 'exponential' ? delayMs * 2 ** (attempt - 1) : delayMs, maxDelayMs);
+	const jitterRatio = jitter === true ? 1 : Math.min(Math.max(Number(jitter), 0), 1);
+	return Math.round(delay - delay * jitterRatio * random());
+}
+
+/**
+ * Checks whether a policy retries an error: every error by default, otherwise those
+ * that are instances of the `retryOn` classes or accepted by the `retryOn` predicate.
+ * @param policy The retry policy.
+ * @param error The error of the failed attempt.
+ * @returns True if the error is worth another attempt.
+ */
+export function isRetryable(policy: RetryPolicy, error: unknown): boolean {
+	const { retryOn } = policy;
+	if (!retryOn) {
+		return true;
+	}
+	return Array.isArray(retryOn) ? retryOn.some((errorClass) => error instanceof errorClass) : retryOn(error);
+}
+
+/**
+ * Runs a handler until it succeeds, its error is not retried or the attempts of the policy are used up,
+ * waiting for the backoff delay between attempts. Every attempt is reported to the observers.
+ * @param policy The retry policy of the handler; a single attempt is made without one.
+ * @param handle Runs an attempt of the handler.
+ * @param observers The retry observers.
+ * @param target The class of the handler and what it was registered for, as reported to the observers.
+ * @returns A Promise that resolves with the result of the first successful attempt.
+ * @throws The error of the last attempt.
+ */
+export async function runWithRetry<TResult>(
+	policy: RetryPolicy | undefined,
+	handle: (retry: RetryContext) => Promise<TResult>,
+	observers: RetryObserver[],
+	target: { handlerClass: ServiceConstructor<unknown>; metadata: HandlerMetadata }
+): Promise<TResult> {
+	const attempts = Math.max(1, Math.floor(policy?.attempts ?? 1));
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const result = await handle({ attempt, attempts });
+			observers.forEach((observer) => observer({ ...target, attempt, attempts, outcome: 'succeeded' }));
+			return result;
+		} catch (error) {
+			if (!policy || attempt >= attempts || !isRetryable(policy, error)) {
+				observers.forEach((observer) => observer({ ...target, attempt, attempts, outcome: 'failed', error }));
+				throw error;
+			}
+
+			const delayMs = getRetryDelay(policy, attempt);
+			observers.forEach((observer) => observer({ ...target, attempt, attempts, outcome: 'retrying', error, delayMs }));
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
+		}
+	}
+}
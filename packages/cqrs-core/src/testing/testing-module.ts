@@ -0,0 +1,74 @@
+import { FactoryProvider, InitializeOptions, ProviderOverride, ServiceConstructor, ServiceDependency, ServiceIdentifier, TestingModuleOptions } from '../types';
+import { Tmick } from '../tmick';
+
+/**
+ * Chooses the replacement of a service, see `TmickTestingModule.overrideProvider()`.
+ */
+export interface ProviderOverrideBuilder<T> {
+	useValue(value: T): TmickTestingModule;
+	useFactory(factory: FactoryProvider<T>['useFactory'], inject?: ServiceDependency[]): TmickTestingModule;
+	useClass(constructor: ServiceConstructor<T>): TmickTestingModule;
+	useExisting(identifier: ServiceIdentifier<T>): TmickTestingModule;
+}
+
+/**
+ * Builds an application for tests, replacing some of its services with test doubles
+ * without "already registered" warnings:
+ *
+ * ```typescript
+ * const app = await TmickTestingModule.create({ module: AppModule })
+ *   .overrideProvider(MAILER).useValue(fakeMailer)
+ *   .compile();
+ * ```
+ *
+ * To isolate tests sharing one application, take a `snapshot()` of its container after
+ * compiling it and `restore()` it after each test.
+ */
+export class TmickTestingModule {
+	private overrides: { identifier: ServiceIdentifier<unknown>; override: ProviderOverride<unknown> }[] = [];
+
+	private constructor(private readonly options: TestingModuleOptions) {}
+
+	/**
+	 * Starts building a test application.
+	 * @param options The root `module` to load (decorated classes are auto-scanned when omitted) and the active `profiles`.
+	 * @returns The testing module.
+	 */
+	static create(options: TestingModuleOptions = {}): TmickTestingModule {
+		return new TmickTestingModule(options);
+	}
+
+	/**
+	 * Replaces a service of the application, e.g. a repository with an in-memory one.
+	 * Services that the application does not register are added.
+	 * @param identifier The unique identifier of the service to replace.
+	 * @returns A builder choosing the replacement with `useValue()`, `useFactory()`, `useClass()` or `useExisting()`.
+	 */
+	overrideProvider<T>(identifier: ServiceIdentifier<T>): ProviderOverrideBuilder<T> {
+		const add = (override: ProviderOverride<T>): TmickTestingModule => {
+			this.overrides.push({ identifier, override });
+			return this;
+		};
+		return {
+			useValue: (value) => add({ useValue: value }),
+			useFactory: (factory, inject) => add({ useFactory: factory, inject }),
+			useClass: (constructor) => add({ useClass: constructor }),
+			useExisting: (existing) => add({ useExisting: existing }),
+		};
+	}
+
+	/**
+	 * Creates the application, applies the overrides in the order they were declared and initializes it,
+	 * resolving async singletons as `Tmick.initializeAsync()` does.
+	 * @param options Optional `strict` flag enabling the dependency analysis.
+	 * @returns A Promise resolving to the initialized application.
+	 * @throws Error if the module tree is invalid or an async initialization fails.
+	 * @throws DependencyValidationError in strict mode, listing every issue found.
+	 */
+	async compile(options: InitializeOptions = {}): Promise<Tmick> {
+		const { module: rootModule, ...tmickOptions } = this.options;
+		const app = rootModule ? Tmick.create(rootModule, tmickOptions) : new Tmick(tmickOptions).autoScanAndRegisters();
+		this.overrides.forEach(({ identifier, override }) => app.overrideProvider(identifier, override));
+		return app.initializeAsync(options);
+	}
+}
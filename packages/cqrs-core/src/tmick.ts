@@ -1,11 +1,47 @@
 /* eslint-disable indent */
-import { ServiceIdentifier, ServiceFactory, ServiceConstructor, IServiceContainer, ICommand, IQuery, IDomainEvent, ICommandDispatcher, IQueryDispatcher, IEventDispatcher } from './types';
+import { ApiResult } from '@tmasterd/result';
+import {
+	ServiceIdentifier,
+	ServiceDependency,
+	ServiceFactory,
+	AsyncServiceFactory,
+	ServiceConstructor,
+	IServiceContainer,
+	ICommand,
+	IQuery,
+	IDomainEvent,
+	ICommandDispatcher,
+	IQueryDispatcher,
+	IEventDispatcher,
+	DisposeOptions,
+	TmickOptions,
+	ConditionPredicate,
+	HandlerMetadata,
+	InitializeOptions,
+	DependencyGraph,
+	ProviderOverride,
+	Provider,
+	IInterceptor,
+	ICommandPipelineBehavior,
+	IQueryPipelineBehavior,
+	ErrorMapper,
+	RetryPolicy,
+	RetryObserver,
+	ConfigOptions,
+} from './types';
 import { CustomServiceContainer } from './ioc/service-container';
 import { HandlerRegistry } from './registry/handler-registry';
-import { COMMAND_DISPATCHER_TOKEN, QUERY_DISPATCHER_TOKEN, EVENT_DISPATCHER_TOKEN, ISERVICECONTAINER_TOKEN } from './tokens';
+import { COMMAND_DISPATCHER_TOKEN, QUERY_DISPATCHER_TOKEN, EVENT_DISPATCHER_TOKEN, ISERVICECONTAINER_TOKEN, QUERY_CACHE_TOKEN } from './tokens';
 import { CommandDispatcher } from './dispatchers/command-dispatcher';
 import { QueryDispatcher } from './dispatchers/query-dispatcher';
 import { EventDispatcher } from './dispatchers/event-dispatcher';
+import { registerInjectableClass } from './ioc/registration';
+import { DisposalError, DisposalFailure, DependencyValidationError } from './ioc/errors';
+import { ConfigService, configToken } from './config/config-service';
+import { InMemoryQueryCache, QueryCacheBehavior } from './cache/query-cache';
+import { mapErrorToFailure } from './results/result-mapping';
+import { ModuleLoader, LoadedModule } from './modules/module-loader';
+import { getMetadata } from './metadata/metadata-store';
 
 /**
  * The main entry point and orchestrator for the Tmick framework.
@@ -17,19 +53,64 @@ export class Tmick {
 	private queryDispatcher: IQueryDispatcher;
 	private eventDispatcher: IEventDispatcher;
 	private initialized = false;
+	private profiles: string[];
+	private modules: LoadedModule[] = [];
+	private registry = new HandlerRegistry();
+	private options: TmickOptions;
+	private config?: ConfigService;
+	private commandPipeline: ServiceIdentifier<ICommandPipelineBehavior>[] = [];
+	private queryPipeline: ServiceIdentifier<IQueryPipelineBehavior>[] = [];
+	private errorMappers: ErrorMapper[] = [];
+	private retryPolicy?: RetryPolicy;
+	private retryObservers: RetryObserver[] = [];
 
-	constructor() {
+	/**
+	 * @param options Optional `profiles` selecting which @Profile classes are scanned, the `handlers`
+	 * and `providers` of the application (or a `scan` filter) deciding which classes belong to it,
+	 * the `config` of the application, see `useConfig()`, and the `queryCache` storing the results of @CacheQuery queries.
+	 */
+	constructor(options: TmickOptions = {}) {
+		this.options = options;
+		this.profiles = options.profiles ?? [];
 		this.container = new CustomServiceContainer();
-
-		// Register the container itself immediately.
-		// This is crucial as other services (like dispatchers) may depend on it.
-		this.container.registerValue(ISERVICECONTAINER_TOKEN, this.container);
+		this.registerCoreServices();
 
 		// Dispatchers are initialized as null; they will be populated AFTER
 		// autoScanAndRegisters is called and they are resolved from the container.
 		this.commandDispatcher = null as any; // Using `as any` to allow late assignment
 		this.queryDispatcher = null as any;
 		this.eventDispatcher = null as any;
+
+		if (options.config) {
+			this.useConfig(options.config);
+		}
+	}
+
+	/**
+	 * Creates an application from a module tree: every module imported (directly or transitively)
+	 * by the root module is loaded into its own container, and the handlers of each module are
+	 * registered with the dispatchers. Services registered directly on the returned instance
+	 * are visible to every module. Call `initialize()` (or `initializeAsync()`) next.
+	 * @param rootModule The root class decorated with @Module.
+	 * @param options Optional `profiles` selecting which @Profile providers and handlers are loaded.
+	 * @returns The Tmick instance.
+	 * @throws Error if the module tree is invalid, e.g. a provider injects a service that is not exported to its module.
+	 */
+	static create(rootModule: ServiceConstructor<unknown>, options: TmickOptions = {}): Tmick {
+		const tmick = new Tmick(options);
+		tmick.modules = new ModuleLoader(tmick.container, (serviceClass) => tmick.isActive(serviceClass)).load(rootModule);
+		tmick.configureDispatchers();
+
+		for (const loadedModule of tmick.modules) {
+			for (const handlerClass of loadedModule.handlers) {
+				const handlerMetadata: HandlerMetadata[] = getMetadata('cqrs:handlers', handlerClass) || [];
+				handlerMetadata.forEach((metadata) => {
+					tmick.registry.register(handlerClass, metadata.targetType, metadata.handlerType);
+					tmick.registerHandler(metadata, handlerClass, loadedModule.container);
+				});
+			}
+		}
+		return tmick;
 	}
 
 	/**
@@ -37,10 +118,25 @@ export class Tmick {
 	 * @param identifier The unique identifier for the service.
 	 * @param factory The factory function to create the service instance.
 	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 * @returns The Tmick instance for chaining.
 	 */
-	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton = true): this {
-		this.container.registerFactory(identifier, factory, singleton);
+	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton = true, scoped = false): this {
+		this.container.registerFactory(identifier, factory, singleton, scoped);
+		return this;
+	}
+
+	/**
+	 * Registers a service using an asynchronous factory function, e.g. one that opens a database pool.
+	 * Async singletons are resolved by `initializeAsync()`.
+	 * @param identifier The unique identifier for the service.
+	 * @param factory The factory function returning a Promise of the service instance.
+	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
+	 * @returns The Tmick instance for chaining.
+	 */
+	registerAsyncFactory<T>(identifier: ServiceIdentifier<T>, factory: AsyncServiceFactory<T>, singleton = true, scoped = false): this {
+		this.container.registerAsyncFactory(identifier, factory, singleton, scoped);
 		return this;
 	}
 
@@ -61,11 +157,12 @@ export class Tmick {
 	 * @param constructor The constructor function of the service class.
 	 * @param singleton Whether the service should be a singleton (default: true).
 	 * @param dependencies Explicitly provided dependencies (optional).
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 * @returns The Tmick instance for chaining.
 	 */
-	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton = true, dependencies: ServiceIdentifier[] = []): this {
-		const canonicalDependencies = dependencies.map((dep) => this.container.getCanonicalIdentifier(dep));
-		this.container.registerConstructor(identifier, constructor, singleton, canonicalDependencies);
+	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton = true, dependencies: ServiceDependency[] = [], scoped = false): this {
+		const canonicalDependencies = dependencies.map((dep) => this.container.getCanonicalDependency(dep));
+		this.container.registerConstructor(identifier, constructor, singleton, canonicalDependencies, scoped);
 		return this;
 	}
 
@@ -74,94 +171,332 @@ export class Tmick {
 	 * It will resolve metadata dependencies automatically.
 	 * @param constructor The constructor function of the service class.
 	 * @param singleton Whether the service should be a singleton (default: true).
+	 * @param scoped Whether the service should be created once per scope (default: false).
 	 * @returns The Tmick instance for chaining.
 	 */
-	registerByClass<T>(constructor: ServiceConstructor<T>, singleton = true): this {
-		this.container.registerByClass(constructor, singleton);
+	registerByClass<T>(constructor: ServiceConstructor<T>, singleton = true, scoped = false): this {
+		this.container.registerByClass(constructor, singleton, scoped);
 		return this;
 	}
 
 	/**
-	 * Scans all classes registered via decorators (@Injectable, @CommandHandler, etc.)
-	 * and automatically registers them with the IoC container.
-	 * After services are registered, it configures the Command, Query, and Event Dispatchers.
-	 * This is the primary method for setting up the framework.
+	 * Registers several implementations under one identifier, e.g. every `IPlugin`.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param constructors The implementation classes.
+	 * @param singleton Whether the implementations should be singletons (default: true).
+	 * @param scoped Whether the implementations should be created once per scope (default: false).
 	 * @returns The Tmick instance for chaining.
 	 */
-	autoScanAndRegisters(): this {
-		// Collect all service classes discovered by Injectable/Handler decorators.
-		const allServiceClasses = HandlerRegistry.getServiceClasses();
+	registerMany<T>(identifier: ServiceIdentifier<T>, constructors: ServiceConstructor<T>[], singleton = true, scoped = false): this {
+		this.container.registerMany(identifier, constructors, singleton, scoped);
+		return this;
+	}
 
-		// Keep track of processed classes to avoid redundant processing.
-		const processedClasses = new Set<ServiceConstructor<any>>();
+	/**
+	 * Registers a provider object: `{ provide, useValue }`, `{ provide, useClass }`,
+	 * `{ provide, useFactory, inject }` (a factory receiving the services listed in `inject`)
+	 * or `{ provide, useExisting }` (an alias sharing the instance of another service).
+	 * @param provider The provider object.
+	 * @returns The Tmick instance for chaining.
+	 */
+	registerProvider<T>(provider: Provider<T>): this {
+		this.container.registerProvider(provider);
+		return this;
+	}
 
-		for (const serviceClass of allServiceClasses) {
-			if (processedClasses.has(serviceClass)) {
-				continue;
-			}
+	/**
+	 * Registers interceptors wrapping the methods of every service and handler of the application
+	 * (including those of its modules), outside the interceptors declared with @UseInterceptors.
+	 * Services resolved before the call are not intercepted, so call it before `autoScanAndRegisters()`
+	 * or `initialize()`. Exclude a service or method with @SkipInterceptors.
+	 * @param interceptors The identifiers of the interceptors, outermost first. They must be @Injectable or registered.
+	 * @returns The Tmick instance for chaining.
+	 */
+	useGlobalInterceptors(...interceptors: ServiceIdentifier<IInterceptor>[]): this {
+		this.container.addInterceptors(...interceptors);
+		return this;
+	}
 
-			const injectableMetadata = Reflect.getMetadata('cqrs:injectable-service', serviceClass);
-			// Default to singleton if no explicit lifecycle decorator is present
-			const singleton = injectableMetadata?.singleton ?? true;
+	/**
+	 * Registers behaviors wrapping the handling of every command of the application (including those
+	 * of its modules), outside the behaviors declared by the handlers with @UsePipeline.
+	 * @param behaviors The identifiers of the behaviors, outermost first. They must be @Injectable or registered.
+	 * @returns The Tmick instance for chaining.
+	 */
+	useCommandPipeline(...behaviors: ServiceIdentifier<ICommandPipelineBehavior>[]): this {
+		this.commandPipeline.push(...behaviors);
+		this.commandDispatcher?.addBehaviors(...behaviors);
+		return this;
+	}
 
-			// Pre-resolve metadata dependencies for the current class
-			const metadataDependencies = this.container.getMetadataDependencies(serviceClass);
-			const canonicalDependencies = metadataDependencies.map((dep) => this.container.getCanonicalIdentifier(dep));
+	/**
+	 * Registers behaviors wrapping the handling of every query of the application (including those of its modules),
+	 * inside the QueryCacheBehavior caching the results of @CacheQuery queries.
+	 * @param behaviors The identifiers of the behaviors, outermost first. They must be @Injectable or registered.
+	 * @returns The Tmick instance for chaining.
+	 */
+	useQueryPipeline(...behaviors: ServiceIdentifier<IQueryPipelineBehavior>[]): this {
+		this.queryPipeline.push(...behaviors);
+		this.queryDispatcher?.addBehaviors(...behaviors);
+		return this;
+	}
 
-			// Register the class with the container using its resolved dependencies.
-			this.container.registerConstructor(serviceClass, serviceClass, singleton, canonicalDependencies);
+	/**
+	 * Registers mappers turning the errors thrown by handlers into the failures returned by
+	 * `tryExecuteCommand()` and `tryExecuteQuery()`, e.g. a domain `NoteNotFoundError` into `ApiResult.notFound()`.
+	 * Errors no mapper handles become `unprocessableEntity` (validation errors) or `internalServerError` failures.
+	 * @param mappers The error mappers, tried in order.
+	 * @returns The Tmick instance for chaining.
+	 */
+	useErrorMappers(...mappers: ErrorMapper[]): this {
+		this.errorMappers.push(...mappers);
+		this.commandDispatcher?.addErrorMappers(...mappers);
+		this.queryDispatcher?.addErrorMappers(...mappers);
+		return this;
+	}
 
-			// If it has a specific identifier from @Injectable({ id: ... }), register it under that too.
-			if (injectableMetadata && injectableMetadata.id && injectableMetadata.id !== serviceClass) {
-				this.container.registerConstructor(injectableMetadata.id, serviceClass, singleton, canonicalDependencies);
+	/**
+	 * Sets the default retry policy of the command and event handlers (including those of its modules)
+	 * that do not declare their own with @Retry, e.g. `useRetryPolicy({ attempts: 3, backoff: 'exponential', jitter: true })`.
+	 * @param policy The number of attempts, the backoff between them and the errors worth retrying.
+	 * @returns The Tmick instance for chaining.
+	 */
+	useRetryPolicy(policy: RetryPolicy): this {
+		this.retryPolicy = policy;
+		this.commandDispatcher?.setRetryPolicy(policy);
+		this.eventDispatcher?.setRetryPolicy(policy);
+		return this;
+	}
+
+	/**
+	 * Registers observers notified of every attempt of the command and event handlers: whether it
+	 * succeeded, will be retried after a delay, or failed for good.
+	 * @param observers The retry observers.
+	 * @returns The Tmick instance for chaining.
+	 */
+	useRetryObservers(...observers: RetryObserver[]): this {
+		this.retryObservers.push(...observers);
+		this.commandDispatcher?.addRetryObservers(...observers);
+		this.eventDispatcher?.addRetryObservers(...observers);
+		return this;
+	}
+
+	/**
+	 * Loads the configuration of the application and registers it, so services can inject the ConfigService,
+	 * a section with @InjectConfig('database') or a value with @Config('database.url'). The configuration
+	 * is checked against its schema by `initialize()`. Registered on the application container, it is
+	 * visible to every module.
+	 * @param config The options to load the configuration with, or an already loaded ConfigService.
+	 * @returns The Tmick instance for chaining.
+	 * @throws Error if a JSON file of the configuration cannot be parsed.
+	 */
+	useConfig(config: ConfigOptions | ConfigService): this {
+		const configService = config instanceof ConfigService ? config : ConfigService.load(config);
+		this.config = configService;
+		this.container.registerValue(ConfigService, configService);
+		for (const path of configService.getPaths()) {
+			this.container.registerFactory(configToken(path), () => configService.get(path), false);
+		}
+		return this;
+	}
+
+	/**
+	 * Replaces the registration of a service where it is provided, typically with a test double:
+	 * in the application container, or in the module providing it when the application was created
+	 * with `Tmick.create()`. Services that are not registered yet are added to the application container.
+	 * Call it after `autoScanAndRegisters()` (or `Tmick.create()`) and before `initialize()`.
+	 * @param identifier The unique identifier of the service to replace.
+	 * @param override The replacement: `{ useValue }`, `{ useClass }`, `{ useFactory, inject }` or `{ useExisting }`.
+	 * @returns The Tmick instance for chaining.
+	 * @throws Error if the framework is already initialized.
+	 */
+	overrideProvider<T>(identifier: ServiceIdentifier<T>, override: ProviderOverride<T>): this {
+		if (this.initialized) {
+			throw new Error('Tmick Framework already initialized. Override providers before calling initialize().');
+		}
+
+		// Importing modules delegate to the module providing the service, so replacing it there is enough
+		let container = this.container;
+		for (const candidate of [this.container, ...this.modules.map((loadedModule) => loadedModule.container)]) {
+			if (candidate.unregister(identifier)) {
+				container = candidate;
+				break;
 			}
+		}
 
-			processedClasses.add(serviceClass);
+		container.registerProvider({ ...override, provide: identifier } as Provider<T>);
+		return this;
+	}
+
+	/**
+	 * Registers the classes of the application with the IoC container: the `handlers` and `providers`
+	 * given to the constructor or, when neither is given, every class discovered via decorators
+	 * (@Injectable, @CommandHandler, etc.) that passes the `scan` filter.
+	 * After services are registered, it configures the Command, Query, and Event Dispatchers.
+	 * This is the primary method for setting up the framework.
+	 * @returns The Tmick instance for chaining.
+	 * @throws Error if two classes handle the same command or query.
+	 */
+	autoScanAndRegisters(): this {
+		const { handlers, providers, scan } = this.options;
+		const candidates = handlers || providers ? [...(providers || []), ...(handlers || [])] : HandlerRegistry.getServiceClasses().filter((serviceClass) => !scan || scan(serviceClass));
+
+		// Register the classes with the registry of this application, together with the handlers they declare,
+		// skipping those whose @Profile or @ConditionalOn conditions do not match.
+		for (const candidate of candidates) {
+			if (typeof candidate !== 'function') {
+				this.container.registerProvider(candidate);
+			} else if (this.isActive(candidate)) {
+				this.registry.registerServiceClass(candidate);
+			}
+		}
+
+		for (const serviceClass of this.registry.getServiceClasses()) {
+			registerInjectableClass(this.container, serviceClass);
 		}
 
 		// After all services (including dispatchers themselves) are registered in the container,
 		// then resolve and configure the dispatchers.
+		this.configureDispatchers();
+
+		// Now, iterate through the registry to configure the dispatchers with their handlers.
+		this.registry.getRegistrations().forEach((registration) => this.registerHandler(registration, registration.handlerClass, this.container));
+
+		return this;
+	}
+
+	/**
+	 * Registers the services every application provides: in the constructor, and again when
+	 * the instance is initialized after `dispose()` cleared the container.
+	 */
+	private registerCoreServices(): void {
+		// Register the container itself immediately.
+		// This is crucial as other services (like dispatchers) may depend on it.
+		this.container.registerValue(ISERVICECONTAINER_TOKEN, this.container);
+		this.container.registerValue(QUERY_CACHE_TOKEN, this.options.queryCache ?? new InMemoryQueryCache());
+		if (this.config) {
+			this.useConfig(this.config);
+		}
+	}
+
+	/**
+	 * Resolves the dispatchers and registers them under their tokens, so that other parts
+	 * of the application can inject them.
+	 */
+	private configureDispatchers(): void {
+		// dispose() cleared the container: register the core services again so the instance can be reused
+		if (!this.container.has(ISERVICECONTAINER_TOKEN)) {
+			this.registerCoreServices();
+		}
 		this.commandDispatcher = this.container.get(CommandDispatcher);
 		this.queryDispatcher = this.container.get(QueryDispatcher);
 		this.eventDispatcher = this.container.get(EventDispatcher);
+		this.commandDispatcher.addBehaviors(...this.commandPipeline);
+		this.queryDispatcher.addBehaviors(QueryCacheBehavior, ...this.queryPipeline);
+		this.commandDispatcher.addErrorMappers(...this.errorMappers);
+		this.queryDispatcher.addErrorMappers(...this.errorMappers);
+		this.commandDispatcher.setRetryPolicy(this.retryPolicy);
+		this.eventDispatcher.setRetryPolicy(this.retryPolicy);
+		this.commandDispatcher.addRetryObservers(...this.retryObservers);
+		this.eventDispatcher.addRetryObservers(...this.retryObservers);
 
-		// Also register the dispatcher *instances* by their specific tokens.
-		// This allows other parts of the application to inject them using these tokens.
 		this.container.registerValue(COMMAND_DISPATCHER_TOKEN, this.commandDispatcher);
 		this.container.registerValue(QUERY_DISPATCHER_TOKEN, this.queryDispatcher);
 		this.container.registerValue(EVENT_DISPATCHER_TOKEN, this.eventDispatcher);
+	}
 
-		// Now, iterate through the HandlerRegistry to configure the dispatchers with their handlers.
-		HandlerRegistry.getRegistrations().forEach((registration) => {
-			switch (registration.handlerType) {
-				case 'command':
-					this.commandDispatcher.registerHandler(registration.targetType, registration.handlerClass);
-					break;
-				case 'query':
-					this.queryDispatcher.registerHandler(registration.targetType, registration.handlerClass);
-					break;
-				case 'event':
-					this.eventDispatcher.registerHandler(registration.targetType, registration.handlerClass);
-					break;
-			}
-		});
+	/**
+	 * Registers a handler class with the dispatcher matching its type.
+	 * @param metadata What the handler handles.
+	 * @param handlerClass The handler class.
+	 * @param container The container resolving the handler.
+	 */
+	private registerHandler(metadata: HandlerMetadata, handlerClass: ServiceConstructor<unknown>, container: IServiceContainer): void {
+		switch (metadata.handlerType) {
+			case 'command':
+				this.commandDispatcher.registerHandler(metadata.targetType, handlerClass, container);
+				break;
+			case 'query':
+				this.queryDispatcher.registerHandler(metadata.targetType, handlerClass, container);
+				break;
+			case 'event':
+				this.eventDispatcher.registerHandler(metadata.targetType, handlerClass, container);
+				break;
+		}
+	}
 
+	/**
+	 * Checks the @Profile and @ConditionalOn conditions of a class against this application.
+	 * @param serviceClass The scanned class.
+	 * @returns True if the class should be registered.
+	 */
+	private isActive(serviceClass: ServiceConstructor<unknown>): boolean {
+		const profiles: string[] | undefined = getMetadata('cqrs:profiles', serviceClass);
+		if (profiles && !profiles.some((profile) => (profile.startsWith('!') ? !this.profiles.includes(profile.slice(1)) : this.profiles.includes(profile)))) {
+			return false;
+		}
+
+		const conditions: ConditionPredicate[] = getMetadata('cqrs:conditions', serviceClass) || [];
+		return conditions.every((condition) => condition({ profiles: [...this.profiles] }));
+	}
+
+	/**
+	 * Validates the registered services upfront, failing fast on dependency cycles
+	 * instead of when the affected service is first resolved.
+	 * Call it after `autoScanAndRegisters` and any manual registrations.
+	 * @returns The Tmick instance for chaining.
+	 * @throws CircularDependencyError if a cycle is found.
+	 */
+	validate(): this {
+		this.container.validate();
 		return this;
 	}
 
 	/**
 	 * Initializes the framework. This method should be called after `autoScanAndRegisters`.
+	 * The configuration, if any, is checked against its schema. In strict mode the whole dependency
+	 * graph is analyzed first, so that missing registrations, cycles and captive dependencies are
+	 * reported before the application starts rather than when a handler is first resolved.
+	 * @param options Optional `strict` flag enabling the dependency analysis.
 	 * @returns The Tmick instance for chaining.
 	 * @throws Error if the framework is already initialized.
+	 * @throws ConfigValidationError if the configuration does not match its schema.
+	 * @throws DependencyValidationError in strict mode, listing every issue found.
 	 */
-	initialize(): this {
+	initialize(options: InitializeOptions = {}): this {
 		if (this.initialized) {
 			throw new Error('Tmick Framework already initialized.');
 		}
+		this.config?.validate();
+		if (options.strict) {
+			const issues = [this.container, ...this.modules.map((loadedModule) => loadedModule.container)].flatMap((container) => container.analyze());
+			if (issues.length > 0) {
+				throw new DependencyValidationError(issues);
+			}
+		}
 		this.initialized = true;
 		return this;
 	}
 
+	/**
+	 * Initializes the framework and resolves every async singleton (async factories and
+	 * classes with a @PostConstruct hook) in dependency order. Await it before the application
+	 * starts accepting commands; afterwards these services can be retrieved with `get()`.
+	 * @param options Optional `strict` flag enabling the dependency analysis, see `initialize()`.
+	 * @returns A Promise resolving to the Tmick instance.
+	 * @throws Error if the framework is already initialized or an async initialization fails.
+	 * @throws ConfigValidationError if the configuration does not match its schema.
+	 * @throws DependencyValidationError in strict mode, listing every issue found.
+	 */
+	async initializeAsync(options: InitializeOptions = {}): Promise<this> {
+		this.initialize(options);
+		await this.container.initializeAsync();
+		for (const loadedModule of this.modules) {
+			await loadedModule.container.initializeAsync();
+		}
+		return this;
+	}
+
 	/**
 	 * Retrieves a service instance from the container.
 	 * The framework must be initialized before calling this method.
@@ -176,12 +511,85 @@ export class Tmick {
 		return this.container.get<T>(identifier);
 	}
 
+	/**
+	 * Creates a child container for a unit of work such as an HTTP request.
+	 * Services marked with @Scoped are created once per scope; singletons are shared with the root container.
+	 * The framework must be initialized before calling this method.
+	 * @returns The new scope. Call `dispose()` on it when the unit of work ends.
+	 * @throws Error if the framework is not initialized.
+	 */
+	createScope(): IServiceContainer {
+		if (!this.initialized) {
+			throw new Error('Tmick Framework not initialized. Call initialize() first.');
+		}
+		return this.container.createScope();
+	}
+
+	/**
+	 * Retrieves every implementation registered under an identifier.
+	 * The framework must be initialized before calling this method.
+	 * @param identifier The identifier shared by the implementations.
+	 * @returns The resolved implementations; empty if none are registered.
+	 * @throws Error if the framework is not initialized.
+	 */
+	getAll<T>(identifier: ServiceIdentifier<T>): T[] {
+		if (!this.initialized) {
+			throw new Error('Tmick Framework not initialized. Call initialize() first.');
+		}
+		return this.container.getAll<T>(identifier);
+	}
+
+	/**
+	 * Retrieves the implementation registered under a name for an identifier,
+	 * e.g. via `@Injectable({ id: REPO, name: 'primary' })`.
+	 * The framework must be initialized before calling this method.
+	 * @param identifier The identifier shared by the implementations.
+	 * @param name The name of the implementation.
+	 * @returns The resolved implementation.
+	 * @throws Error if the framework is not initialized or no implementation has that name.
+	 */
+	getNamed<T>(identifier: ServiceIdentifier<T>, name: string): T {
+		if (!this.initialized) {
+			throw new Error('Tmick Framework not initialized. Call initialize() first.');
+		}
+		return this.container.getNamed<T>(identifier, name);
+	}
+
+	/**
+	 * Retrieves every service whose class is decorated with the given @Tag.
+	 * The framework must be initialized before calling this method.
+	 * @param tag The tag to look up.
+	 * @returns The resolved services; empty if none carry the tag.
+	 * @throws Error if the framework is not initialized.
+	 */
+	getTagged<T>(tag: string): T[] {
+		if (!this.initialized) {
+			throw new Error('Tmick Framework not initialized. Call initialize() first.');
+		}
+		return this.container.getTagged<T>(tag);
+	}
+
+	/**
+	 * Asynchronously retrieves a service instance, awaiting async factories and @PostConstruct hooks.
+	 * The framework must be initialized before calling this method.
+	 * @param identifier The unique identifier of the service to retrieve.
+	 * @returns A Promise resolving to the service instance.
+	 * @throws Error if the framework is not initialized or service not found.
+	 */
+	async getAsync<T>(identifier: ServiceIdentifier<T>): Promise<T> {
+		if (!this.initialized) {
+			throw new Error('Tmick Framework not initialized. Call initialize() first.');
+		}
+		return this.container.getAsync<T>(identifier);
+	}
+
 	/**
 	 * Executes a command by dispatching it to its registered handler.
 	 * The framework must be initialized before calling this method.
 	 * @param command The command object to execute.
 	 * @returns A Promise that resolves when the command handling is complete.
 	 * @throws Error if the framework is not initialized or no handler for the command.
+	 * @throws ValidationError if the command breaks the rules declared with the validation decorators.
 	 */
 	async executeCommand<T extends ICommand, TResult>(command: T): Promise<TResult> {
 		if (!this.initialized) {
@@ -197,6 +605,7 @@ export class Tmick {
 	 * @param query The query object to execute.
 	 * @returns A Promise that resolves with the result of the query.
 	 * @throws Error if the framework is not initialized or no handler for the query.
+	 * @throws ValidationError if the query breaks the rules declared with the validation decorators.
 	 */
 	async executeQuery<TQuery extends IQuery<TResult>, TResult>(query: TQuery): Promise<TResult> {
 		if (!this.initialized) {
@@ -205,6 +614,32 @@ export class Tmick {
 		return this.queryDispatcher.dispatch(query);
 	}
 
+	/**
+	 * Executes a command like `executeCommand()`, but never throws: the outcome is returned as an ApiResult,
+	 * an `ok` success holding the result of the handler, or the failure the error was mapped to (see `useErrorMappers()`).
+	 * @param command The command object to execute.
+	 * @returns A Promise that resolves with the result.
+	 */
+	async tryExecuteCommand<T extends ICommand, TResult>(command: T): Promise<ApiResult<TResult, unknown>> {
+		if (!this.initialized) {
+			return mapErrorToFailure(new Error('Tmick Framework not initialized. Call initialize() first.'), command, this.errorMappers);
+		}
+		return this.commandDispatcher.tryDispatch<T, TResult>(command);
+	}
+
+	/**
+	 * Executes a query like `executeQuery()`, but never throws: the outcome is returned as an ApiResult,
+	 * an `ok` success holding the result of the query, or the failure the error was mapped to (see `useErrorMappers()`).
+	 * @param query The query object to execute.
+	 * @returns A Promise that resolves with the result.
+	 */
+	async tryExecuteQuery<TQuery extends IQuery<TResult>, TResult>(query: TQuery): Promise<ApiResult<TResult, unknown>> {
+		if (!this.initialized) {
+			return mapErrorToFailure(new Error('Tmick Framework not initialized. Call initialize() first.'), query, this.errorMappers);
+		}
+		return this.queryDispatcher.tryDispatch<TQuery, TResult>(query);
+	}
+
 	/**
 	 * Dispatches a list of domain events to their registered handlers.
 	 * The framework must be initialized before calling this method.
@@ -231,6 +666,52 @@ export class Tmick {
 		return this.container;
 	}
 
+	/**
+	 * Retrieves the container of a module loaded by `Tmick.create()`, which resolves
+	 * the module's own providers and the exports of the modules it imports.
+	 * @param moduleClass The class decorated with @Module.
+	 * @returns The container of the module.
+	 * @throws Error if the framework is not initialized or the module is not part of the application.
+	 */
+	getModuleContainer(moduleClass: ServiceConstructor<unknown>): IServiceContainer {
+		if (!this.initialized) {
+			throw new Error('Tmick Framework not initialized. Call initialize() first.');
+		}
+		const loadedModule = this.modules.find((candidate) => candidate.module === moduleClass);
+		if (!loadedModule) {
+			throw new Error(`Module '${moduleClass.name}' is not part of this application.`);
+		}
+		return loadedModule.container;
+	}
+
+	/**
+	 * Describes the services of the application and of its modules, who depends on whom,
+	 * and which command, query or event each registered handler handles.
+	 * Render it with `toDot()`, `toMermaid()` or `toJson()`.
+	 * @returns The dependency graph.
+	 */
+	getDependencyGraph(): DependencyGraph {
+		const graph: DependencyGraph = { nodes: [], edges: [] };
+		const nodeIds = new Set<string>();
+		const edgeKeys = new Set<string>();
+
+		// Exports of imported modules appear in the importing module as factories; the providing module comes first and wins
+		const containers = [this.container, ...this.modules.map((loadedModule) => loadedModule.container)];
+		for (const { nodes, edges } of containers.map((container) => container.getDependencyGraph())) {
+			graph.nodes.push(...nodes.filter((node) => !nodeIds.has(node.id) && nodeIds.add(node.id)));
+			graph.edges.push(...edges.filter((edge) => !edgeKeys.has(`${edge.from}->${edge.to}`) && edgeKeys.add(`${edge.from}->${edge.to}`)));
+		}
+
+		for (const { handlerClass, targetType, handlerType } of this.registry.getRegistrations()) {
+			if (!nodeIds.has(targetType)) {
+				graph.nodes.push({ id: targetType, kind: handlerType });
+				nodeIds.add(targetType);
+			}
+			graph.edges.push({ from: handlerClass.name, to: targetType, kind: 'handles' });
+		}
+		return graph;
+	}
+
 	/**
 	 * Provides comprehensive debug information about the framework's state.
 	 * @returns An object containing various debug details.
@@ -239,8 +720,8 @@ export class Tmick {
 		const containerInfo = this.container.getContainerDebugInfo();
 		return {
 			registeredServices: this.container.getRegisteredServices(),
-			handlerRegistrations: HandlerRegistry.getRegistrations(),
-			serviceClassesRegisteredForScan: HandlerRegistry.getServiceClasses().map((cls) => cls.name),
+			handlerRegistrations: this.registry.getRegistrations(),
+			serviceClassesRegisteredForScan: this.registry.getServiceClasses().map((cls) => cls.name),
 			initialized: this.initialized,
 			containerInfo,
 		};
@@ -248,11 +729,33 @@ export class Tmick {
 
 	/**
 	 * Disposes of the framework, clearing all registrations and resetting its state.
+	 * Singletons created by the container are disposed in reverse creation order through their
+	 * @PreDestroy hook or `IDisposable`/`Symbol.asyncDispose` contract: the containers of the modules
+	 * one after another, newest first, and the application container last, as module services may
+	 * depend on its singletons. Each container is cleared once its services are disposed, so the
+	 * returned Promise must settle before the instance is initialized again.
 	 * Useful for testing or shutting down the application gracefully.
+	 * @param options Disposal options, e.g. the default per-service timeout.
+	 * @throws DisposalError listing every service that failed or timed out.
 	 */
-	dispose(): void {
-		this.container.clear();
-		HandlerRegistry.clear();
+	async dispose(options?: DisposeOptions): Promise<void> {
+		// Module containers are children of the application container, so they are disposed before it
+		const containers = [...this.modules.map((loadedModule) => loadedModule.container).reverse(), this.container];
+		this.modules = [];
+		this.registry.clear();
 		this.initialized = false;
+
+		const failures: DisposalFailure[] = [];
+		for (const container of containers) {
+			try {
+				await container.dispose(options);
+			} catch (error) {
+				failures.push(...(error as DisposalError).failures);
+			}
+			container.clear();
+		}
+		if (failures.length > 0) {
+			throw new DisposalError(failures);
+		}
 	}
 }
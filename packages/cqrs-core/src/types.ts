@@ -1,3 +1,5 @@
+import { ApiFailure, ApiResult } from '@tmasterd/result';
+
 /**
  * Represents a unique identifier for a service in the IoC container.
  * Can be a string, a class constructor, or a Token instance.
@@ -9,6 +11,11 @@ export type ServiceIdentifier<T = any> = string | (new (...args: any[]) => T) |
  */
 export type ServiceFactory<T> = (container: ICustomContainer) => T;
 
+/**
+ * A factory function that asynchronously creates an instance of a service.
+ */
+export type AsyncServiceFactory<T> = (container: ICustomContainer) => Promise<T>;
+
 /**
  * Constructor type for services.
  */
@@ -25,6 +32,39 @@ export class Token<T> {
 	}
 }
 
+/**
+ * Describes how a dependency is injected when a plain ServiceIdentifier is not enough,
+ * e.g. to inject every implementation registered under a token.
+ */
+export interface DependencyDescriptor<T = any> {
+	identifier: ServiceIdentifier<T>;
+	multi?: boolean; // Inject an array of every implementation registered under the identifier
+	optional?: boolean; // Inject `defaultValue` instead of failing when the identifier is not registered
+	defaultValue?: T; // Value injected for an optional dependency that is not registered
+	lazy?: boolean; // Inject a proxy that resolves the dependency on first use
+	name?: string; // Inject the implementation registered under this name for the identifier
+}
+
+/**
+ * A dependency of a service: either a plain identifier or a DependencyDescriptor.
+ */
+export type ServiceDependency<T = any> = ServiceIdentifier<T> | DependencyDescriptor<T>;
+
+/**
+ * A dependency injected into a property (or setter) after the service is constructed.
+ */
+export interface PropertyDependency {
+	propertyKey: string | symbol; // Name of the decorated property or setter
+	dependency: ServiceDependency; // The dependency to inject into it
+}
+
+/**
+ * Type guard distinguishing a DependencyDescriptor from a plain ServiceIdentifier.
+ */
+export function isDependencyDescriptor(dependency: ServiceDependency): dependency is DependencyDescriptor {
+	return typeof dependency === 'object' && dependency !== null && !(dependency instanceof Token);
+}
+
 // CQRS Interfaces
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface ICommand {}
@@ -39,7 +79,7 @@ export interface IDomainEvent {
 }
 
 export interface ICommandHandler<TCommand extends ICommand, TResult> {
-	handle(command: TCommand): Promise<TResult>;
+	handle(command: TCommand, retry?: RetryContext): Promise<TResult>;
 }
 
 export interface IQueryHandler<TQuery extends IQuery<TResult>, TResult> {
@@ -47,9 +87,107 @@ export interface IQueryHandler<TQuery extends IQuery<TResult>, TResult> {
 }
 
 export interface IDomainEventHandler<TEvent extends IDomainEvent> {
-	handle(event: TEvent): Promise<void>;
+	handle(event: TEvent, retry?: RetryContext): Promise<void>;
+}
+
+/**
+ * Describes the command a pipeline behavior is running for, and the handler it is dispatched to.
+ */
+export interface CommandPipelineContext<TCommand extends ICommand = ICommand> {
+	command: TCommand;
+	commandName: string;
+	handlerClass: ServiceConstructor<unknown>; // The class of the handler; read the metadata of its decorators from it
+	handler: ICommandHandler<TCommand, unknown>; // The handler instance, resolved from the scope of the dispatch
+	metadata: HandlerMetadata; // What the handler was registered for
+	retry: RetryContext; // The attempt running the pipeline, see @Retry
+}
+
+/**
+ * Contract for the behaviors of the command pipeline, wrapping the handling of commands with
+ * cross-cutting concerns such as logging, validation or transactions, see @UsePipeline.
+ * `next()` calls the next behavior, and eventually the handler, returning its result.
+ * A behavior may also return (or throw) without calling `next()`.
+ */
+export interface ICommandPipelineBehavior<TCommand extends ICommand = ICommand, TResult = unknown> {
+	handle(command: TCommand, next: () => Promise<TResult>, context: CommandPipelineContext<TCommand>): Promise<TResult>;
+}
+
+/**
+ * Describes the query a pipeline behavior is running for, and the handler it is dispatched to.
+ */
+export interface QueryPipelineContext<TQuery extends IQuery<unknown> = IQuery<unknown>> {
+	query: TQuery;
+	queryName: string;
+	handlerClass: ServiceConstructor<unknown>; // The class of the handler; read the metadata of its decorators from it
+	handler: IQueryHandler<TQuery, unknown>; // The handler instance
+	metadata: HandlerMetadata; // What the handler was registered for
+}
+
+/**
+ * Contract for the behaviors of the query pipeline, wrapping the handling of queries, e.g. with caching.
+ * `next()` calls the next behavior, and eventually the handler, returning its result.
+ * A behavior may also return (or throw) without calling `next()`.
+ */
+export interface IQueryPipelineBehavior<TQuery extends IQuery<unknown> = IQuery<unknown>, TResult = unknown> {
+	handle(query: TQuery, next: () => Promise<TResult>, context: QueryPipelineContext<TQuery>): Promise<TResult>;
+}
+
+// Options for the @CacheQuery decorator
+export interface CacheQueryOptions<TQuery = unknown> {
+	ttlMs?: number; // How long a result is cached; cached until invalidated when omitted
+	key?: (query: TQuery) => string; // Derives the cache key from the query (default: the query serialized to JSON)
+}
+
+/**
+ * A cached query result, wrapped so that `undefined` results can be cached too.
+ */
+export interface QueryCacheEntry {
+	value: unknown;
 }
 
+/**
+ * Contract for the stores of cached query results, see @CacheQuery. Methods may return Promises,
+ * so that results can be cached out of process. Keys start with the name of the query followed by ':'.
+ */
+export interface IQueryCache {
+	get(key: string): QueryCacheEntry | undefined | Promise<QueryCacheEntry | undefined>; // The entry, or undefined if missing or expired
+	set(key: string, value: unknown, ttlMs?: number): void | Promise<void>;
+	deleteByPrefix(prefix: string): void | Promise<void>; // Drops every entry whose key starts with the prefix
+	clear(): void | Promise<void>;
+}
+
+// Options for the @Retry decorator and the default retry policy of the dispatchers
+export interface RetryPolicy {
+	attempts: number; // Total number of attempts, including the first one; 1 disables retries
+	backoff?: 'fixed' | 'exponential'; // Whether the delay stays the same or doubles after each attempt (default: 'fixed')
+	delayMs?: number; // Delay before the first retry (default: 100)
+	maxDelayMs?: number; // Upper bound of the delay (default: 30000)
+	jitter?: boolean | number; // Shortens each delay by a random share of up to this fraction of it, true meaning 1 (default: no jitter)
+	retryOn?: ServiceConstructor<Error>[] | ((error: unknown) => boolean); // The errors worth retrying (default: every error)
+}
+
+// Tells command and event handlers (and the command pipeline) which attempt is running
+export interface RetryContext {
+	attempt: number; // 1 for the first attempt
+	attempts: number; // The number of attempts the policy allows
+}
+
+/**
+ * Reported to the retry observers after each attempt of a command or event handler.
+ */
+export interface RetryAttempt extends RetryContext {
+	handlerClass: ServiceConstructor<unknown>;
+	metadata: HandlerMetadata; // What the handler was registered for
+	outcome: 'succeeded' | 'retrying' | 'failed'; // 'failed' when the error is not retried or no attempts are left
+	error?: unknown; // The error of an unsuccessful attempt
+	delayMs?: number; // The delay before the next attempt, when retrying
+}
+
+/**
+ * Observes the attempts of command and event handlers, e.g. to log or count retries.
+ */
+export type RetryObserver = (attempt: RetryAttempt) => void;
+
 /**
  * Represents the internal configuration for a service in the container.
  * Using union types where each type has its specific required property.
@@ -58,13 +196,24 @@ export interface FactoryServiceDescriptor<T> {
 	identifier: ServiceIdentifier<T>;
 	factory: ServiceFactory<T>; // This property is required for a factory descriptor
 	singleton: boolean;
+	scoped?: boolean; // One instance per scope created with createScope()
+	canonicalDependencies?: ServiceDependency[]; // Declared with `inject` by a factory provider; passed to the factory instead of the container
+	alias?: boolean; // Registered by a `useExisting` provider, resolving its single dependency
+}
+
+export interface AsyncFactoryServiceDescriptor<T> {
+	identifier: ServiceIdentifier<T>;
+	asyncFactory: AsyncServiceFactory<T>; // This property is required for an async factory descriptor
+	singleton: boolean;
+	scoped?: boolean; // One instance per scope created with createScope()
 }
 
 export interface ConstructorServiceDescriptor<T> {
 	identifier: ServiceIdentifier<T>;
 	constructor: ServiceConstructor<T>; // This property is required for a constructor descriptor
 	singleton: boolean;
-	canonicalDependencies?: ServiceIdentifier[]; // Store canonical dependency identifiers here
+	scoped?: boolean; // One instance per scope created with createScope()
+	canonicalDependencies?: ServiceDependency[]; // Store canonical dependency identifiers here
 }
 
 export interface InstanceServiceDescriptor<T> {
@@ -74,53 +223,239 @@ export interface InstanceServiceDescriptor<T> {
 }
 
 // Union type for ServiceDescriptor
-export type ServiceDescriptor<T> = FactoryServiceDescriptor<T> | ConstructorServiceDescriptor<T> | InstanceServiceDescriptor<T>;
+export type ServiceDescriptor<T> = FactoryServiceDescriptor<T> | AsyncFactoryServiceDescriptor<T> | ConstructorServiceDescriptor<T> | InstanceServiceDescriptor<T>;
+
+/**
+ * A copy of the registrations and cached instances of a container, taken with `snapshot()`
+ * and put back with `restore()`. Treat it as opaque.
+ */
+export interface ContainerSnapshot {
+	services: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>>;
+	instances: Map<ServiceIdentifier<unknown>, unknown>; // Singleton and scoped instances created before the snapshot
+	multiBindings: Map<ServiceIdentifier<unknown>, ServiceIdentifier<unknown>[]>;
+	namedBindings: Map<ServiceIdentifier<unknown>, Map<string, ServiceIdentifier<unknown>>>;
+	taggedBindings: Map<string, { identifier: ServiceIdentifier<unknown>; constructor: ServiceConstructor<unknown> }[]>;
+	stringToIdentifierMap: Map<string, ServiceIdentifier<unknown>>;
+	createdInstances: { identifier: ServiceIdentifier<unknown>; instance: unknown }[];
+}
+
+/**
+ * Registers a pre-existing instance, like `registerValue()`.
+ */
+export interface ValueProvider<T> {
+	provide: ServiceIdentifier<T>;
+	useValue: T;
+}
+
+/**
+ * Registers a class under an identifier. The class keeps the lifetime of its lifecycle decorator
+ * (a singleton by default) unless `singleton` or `scoped` is given.
+ */
+export interface ClassProvider<T> {
+	provide: ServiceIdentifier<T>;
+	useClass: ServiceConstructor<T>;
+	singleton?: boolean;
+	scoped?: boolean;
+}
+
+/**
+ * Registers a factory receiving the services listed in `inject` as arguments, so that its
+ * dependencies are validated and resolved by the container like those of a class.
+ */
+export interface FactoryProvider<T> {
+	provide: ServiceIdentifier<T>;
+	useFactory(...dependencies: unknown[]): T; // Declared as a method, so factories may type their parameters
+	inject?: ServiceDependency[]; // Resolved in order and passed to the factory
+	singleton?: boolean; // Default: true
+	scoped?: boolean; // Default: false
+}
+
+/**
+ * Registers an alias resolving to another service, sharing its instance and lifetime.
+ */
+export interface ExistingProvider<T> {
+	provide: ServiceIdentifier<T>;
+	useExisting: ServiceIdentifier<T>;
+}
+
+// A provider object, see `registerProvider()`
+export type Provider<T = any> = ValueProvider<T> | ClassProvider<T> | FactoryProvider<T> | ExistingProvider<T>;
+
+// Replaces the registration of a service, see `overrideProvider()`
+export type ProviderOverride<T> = Omit<ValueProvider<T>, 'provide'> | Omit<ClassProvider<T>, 'provide'> | Omit<FactoryProvider<T>, 'provide'> | Omit<ExistingProvider<T>, 'provide'>;
+
+/**
+ * Describes a method call intercepted by an IInterceptor.
+ */
+export interface InvocationContext {
+	instance: unknown; // The service whose method is called
+	serviceClass: ServiceConstructor<unknown>; // The class of the service
+	methodName: string | symbol;
+	args: unknown[]; // The arguments of the call; interceptors may change them before calling next()
+}
+
+/**
+ * Contract for interceptors wrapping the methods of services, see @UseInterceptors.
+ * `next()` calls the next interceptor, and eventually the method itself, returning its result
+ * (a Promise for async methods). An interceptor may also return without calling `next()`.
+ */
+export interface IInterceptor {
+	intercept(context: InvocationContext, next: () => unknown): unknown;
+}
+
+/**
+ * Contract for services that release resources (sockets, timers, file handles) when the container is disposed.
+ * Services may alternatively implement `Symbol.asyncDispose`/`Symbol.dispose` or mark a method with @PreDestroy.
+ */
+export interface IDisposable {
+	dispose(): void | Promise<void>;
+}
+
+/**
+ * A problem found in the dependency graph by `analyze()`.
+ */
+export interface DependencyIssue {
+	kind: 'missing' | 'cycle' | 'captive'; // Unresolvable dependency, dependency cycle, or singleton capturing a shorter-lived service
+	service: string; // Name of the service the issue was found on
+	message: string; // Human-readable description of the issue
+}
+
+/**
+ * A service, or a command, query or event handled by a handler, in the dependency graph.
+ */
+export interface DependencyGraphNode {
+	id: string; // Name of the service or message
+	kind: 'constructor' | 'factory' | 'alias' | 'instance' | 'command' | 'query' | 'event';
+	lifetime?: 'singleton' | 'scoped' | 'transient'; // Set for services only
+}
+
+/**
+ * A dependency of a service on another service, or a handler handling a message.
+ */
+export interface DependencyGraphEdge {
+	from: string; // Id of the dependent service or of the handler
+	to: string; // Id of the dependency or of the handled message
+	kind: 'dependency' | 'handles';
+	lazy?: boolean; // Injected through a lazy proxy
+	optional?: boolean; // Injected only if registered
+	multi?: boolean; // One of the implementations injected as an array
+}
+
+/**
+ * The services of an application and who depends on whom, see `getDependencyGraph()`.
+ */
+export interface DependencyGraph {
+	nodes: DependencyGraphNode[];
+	edges: DependencyGraphEdge[];
+}
+
+/**
+ * Options for initializing a Tmick application.
+ */
+export interface InitializeOptions {
+	strict?: boolean; // Analyze the dependency graph and fail on any issue before the application starts
+}
+
+/**
+ * Options for disposing a container.
+ */
+export interface DisposeOptions {
+	timeoutMs?: number; // Default time each service may take to dispose (default: 5000)
+}
 
 /**
  * Internal interface for the low-level IoC container,
  * used by CustomServiceContainer.
  */
 export interface ICustomContainer {
-	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton?: boolean): void;
-	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton?: boolean, canonicalDependencies?: ServiceIdentifier[]): void;
+	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton?: boolean, scoped?: boolean): void;
+	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton?: boolean, canonicalDependencies?: ServiceDependency[], scoped?: boolean): void;
+	registerAsyncFactory<T>(identifier: ServiceIdentifier<T>, factory: AsyncServiceFactory<T>, singleton?: boolean, scoped?: boolean): void;
 	registerInstance<T>(identifier: ServiceIdentifier<T>, instance: T): void;
+	registerMany<T>(identifier: ServiceIdentifier<T>, constructors: ServiceConstructor<T>[], singleton?: boolean, scoped?: boolean): void;
+	registerNamed<T>(identifier: ServiceIdentifier<T>, name: string, constructor: ServiceConstructor<T>, singleton?: boolean, scoped?: boolean): void;
+	registerProvider<T>(provider: Provider<T>): void;
 	get<T>(identifier: ServiceIdentifier<T>): T;
+	getAll<T>(identifier: ServiceIdentifier<T>): T[];
+	getNamed<T>(identifier: ServiceIdentifier<T>, name: string): T;
+	getTagged<T>(tag: string): T[];
+	getAsync<T>(identifier: ServiceIdentifier<T>): Promise<T>;
+	initializeAsync(): Promise<void>;
 	has<T>(identifier: ServiceIdentifier<T>): boolean;
+	createScope(): ICustomContainer;
+	dispose(options?: DisposeOptions): Promise<void>;
+	validate(): void;
+	analyze(): DependencyIssue[];
+	getDependencyGraph(): DependencyGraph;
+	unregister<T>(identifier: ServiceIdentifier<T>): boolean;
+	addInterceptors(...interceptors: ServiceIdentifier<IInterceptor>[]): void;
+	snapshot(): ContainerSnapshot;
+	restore(snapshot: ContainerSnapshot): void;
 	clear(): void;
 	getDebugInfo(): { registeredServiceIdentifiers: string[]; instanceCacheSize: number };
-	getMetadataDependencies(constructor: ServiceConstructor<any>): ServiceIdentifier[];
+	getMetadataDependencies(constructor: ServiceConstructor<unknown>): ServiceDependency[];
 	getCanonicalIdentifier<T>(identifier: ServiceIdentifier<T>): ServiceIdentifier<T>;
+	getCanonicalDependency(dependency: ServiceDependency): ServiceDependency;
 }
 
 /**
  * Public interface for the framework's IoC container abstraction.
  */
 export interface IServiceContainer {
-	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton?: boolean): void;
+	registerFactory<T>(identifier: ServiceIdentifier<T>, factory: ServiceFactory<T>, singleton?: boolean, scoped?: boolean): void;
+	registerAsyncFactory<T>(identifier: ServiceIdentifier<T>, factory: AsyncServiceFactory<T>, singleton?: boolean, scoped?: boolean): void;
 	registerValue<T>(identifier: ServiceIdentifier<T>, instance: T): void;
-	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton?: boolean, canonicalDependencies?: ServiceIdentifier[]): void;
-	registerByClass<T>(constructor: ServiceConstructor<T>, singleton?: boolean): void;
+	registerConstructor<T>(identifier: ServiceIdentifier<T>, constructor: ServiceConstructor<T>, singleton?: boolean, canonicalDependencies?: ServiceDependency[], scoped?: boolean): void;
+	registerByClass<T>(constructor: ServiceConstructor<T>, singleton?: boolean, scoped?: boolean): void;
+	registerMany<T>(identifier: ServiceIdentifier<T>, constructors: ServiceConstructor<T>[], singleton?: boolean, scoped?: boolean): void;
+	registerNamed<T>(identifier: ServiceIdentifier<T>, name: string, constructor: ServiceConstructor<T>, singleton?: boolean, scoped?: boolean): void;
+	registerProvider<T>(provider: Provider<T>): void;
 	get<T>(identifier: ServiceIdentifier<T>): T;
+	getAll<T>(identifier: ServiceIdentifier<T>): T[];
+	getNamed<T>(identifier: ServiceIdentifier<T>, name: string): T;
+	getTagged<T>(tag: string): T[];
+	getAsync<T>(identifier: ServiceIdentifier<T>): Promise<T>;
+	initializeAsync(): Promise<void>;
 	has(identifier: ServiceIdentifier<any>): boolean;
+	createScope(): IServiceContainer;
+	dispose(options?: DisposeOptions): Promise<void>;
+	validate(): void;
+	analyze(): DependencyIssue[];
+	getDependencyGraph(): DependencyGraph;
+	unregister<T>(identifier: ServiceIdentifier<T>): boolean;
+	addInterceptors(...interceptors: ServiceIdentifier<IInterceptor>[]): void;
+	snapshot(): ContainerSnapshot;
+	restore(snapshot: ContainerSnapshot): void;
 	clear(): void;
 	getRegisteredServices(): string[];
 	getContainerDebugInfo(): { registeredServiceIdentifiers: string[]; instanceCacheSize: number };
-	getMetadataDependencies(constructor: ServiceConstructor<any>): ServiceIdentifier[];
+	getMetadataDependencies(constructor: ServiceConstructor<unknown>): ServiceDependency[];
 	getCanonicalIdentifier<T>(identifier: ServiceIdentifier<T>): ServiceIdentifier<T>;
+	getCanonicalDependency(dependency: ServiceDependency): ServiceDependency;
 }
 
 export interface ICommandDispatcher {
-	registerHandler(commandName: string, handlerServiceName: ServiceIdentifier<any>): void;
+	registerHandler(commandName: string, handlerServiceName: ServiceIdentifier<unknown>, container?: IServiceContainer): void;
+	addBehaviors(...behaviors: ServiceIdentifier<ICommandPipelineBehavior>[]): void;
+	addErrorMappers(...mappers: ErrorMapper[]): void;
+	setRetryPolicy(policy: RetryPolicy | undefined): void;
+	addRetryObservers(...observers: RetryObserver[]): void;
 	dispatch<T extends ICommand, TResult>(command: T): Promise<TResult>;
+	tryDispatch<T extends ICommand, TResult>(command: T): Promise<ApiResult<TResult, unknown>>;
 }
 
 export interface IQueryDispatcher {
-	registerHandler(queryName: string, handlerServiceName: ServiceIdentifier<any>): void;
+	registerHandler(queryName: string, handlerServiceName: ServiceIdentifier<unknown>, container?: IServiceContainer): void;
+	addBehaviors(...behaviors: ServiceIdentifier<IQueryPipelineBehavior>[]): void;
+	addErrorMappers(...mappers: ErrorMapper[]): void;
 	dispatch<TQuery extends IQuery<TResult>, TResult>(query: TQuery): Promise<TResult>;
+	tryDispatch<TQuery extends IQuery<TResult>, TResult>(query: TQuery): Promise<ApiResult<TResult, unknown>>;
 }
 
 export interface IEventDispatcher {
-	registerHandler(eventName: string, handlerServiceName: ServiceIdentifier<any>): void;
+	registerHandler(eventName: string, handlerServiceName: ServiceIdentifier<unknown>, container?: IServiceContainer): void;
+	setRetryPolicy(policy: RetryPolicy | undefined): void;
+	addRetryObservers(...observers: RetryObserver[]): void;
 	dispatch(events: IDomainEvent[]): Promise<void>;
 }
 
@@ -130,6 +465,135 @@ export interface HandlerRegistration {
 	handlerType: 'command' | 'query' | 'event';
 }
 
+// Stored on handler classes by the handler decorators, so modules can register their handlers
+export interface HandlerMetadata {
+	targetType: string; // command, query, or event name
+	handlerType: 'command' | 'query' | 'event';
+}
+
+// Stored on classes by @Injectable, read when they are registered
+export interface InjectableMetadata {
+	id: ServiceIdentifier<unknown>; // The class itself, or the identifier given to @Injectable
+	singleton: boolean;
+	scoped: boolean;
+	multi?: boolean; // Added to the implementations of `id`
+	name?: string; // Registered as the named implementation of `id`
+}
+
+// Options for the @Module decorator
+export interface ModuleOptions {
+	providers?: (ServiceConstructor<unknown> | Provider)[]; // Services private to the module unless exported
+	handlers?: ServiceConstructor<unknown>[]; // Command, query and event handlers of the module
+	imports?: ServiceConstructor<unknown>[]; // Modules whose exported providers this module can inject
+	exports?: ServiceIdentifier<unknown>[]; // Provider identifiers (or imported modules) visible to importing modules
+}
+
 export interface InjectableOptions {
 	id?: ServiceIdentifier<any>; // Optional identifier for the service
+	deps?: ServiceDependency[]; // Constructor dependencies, for classes whose parameters cannot be decorated (standard decorators)
+	multi?: boolean; // Add the service to the implementations of `id` instead of replacing them
+	name?: string; // Register the service as the named implementation of `id`, e.g. 'primary'
+}
+
+// Options for the @Inject decorator
+export interface InjectOptions<T = any> {
+	optional?: boolean; // Inject `default` (or undefined) when the dependency is not registered
+	default?: T; // Fallback value for an optional dependency
+	name?: string; // Inject the implementation registered under this name
+}
+
+// Options for creating a Tmick application
+export interface TmickOptions {
+	profiles?: string[]; // Active profiles; classes decorated with @Profile are only scanned when one matches
+	handlers?: ServiceConstructor<unknown>[]; // Handlers of the application; with `providers`, replaces scanning every decorated class
+	providers?: (ServiceConstructor<unknown> | Provider)[]; // Services of the application; with `handlers`, replaces scanning every decorated class
+	scan?: (serviceClass: ServiceConstructor<unknown>) => boolean; // Selects which decorated classes are scanned when no handlers or providers are listed
+	config?: ConfigOptions; // Configuration loaded into a ConfigService and validated by initialize()
+	queryCache?: IQueryCache; // Store of the results of @CacheQuery queries (default: an InMemoryQueryCache)
 }
+
+// Options for creating an application with TmickTestingModule
+export interface TestingModuleOptions extends TmickOptions {
+	module?: ServiceConstructor<unknown>; // Root module loaded with Tmick.create(); when omitted, decorated classes are auto-scanned
+}
+
+/**
+ * The context standard (TC39) decorators receive as their second argument; only the members Tmick reads are declared.
+ */
+export interface StandardDecoratorContext {
+	kind: 'class' | 'method' | 'getter' | 'setter' | 'field' | 'accessor'; // What is decorated
+	name: string | symbol | undefined; // The name of the decorated member (or class)
+	static?: boolean; // Whether the decorated member is static
+	metadata?: object; // Shared by the decorators of a class, exposed as `Class[Symbol.metadata]`
+}
+
+// Passed to @ConditionalOn predicates when deciding whether to scan a class
+export interface ConditionContext {
+	profiles: string[]; // The active profiles of the Tmick application
+}
+
+export type ConditionPredicate = (context: ConditionContext) => boolean;
+
+/**
+ * The declared type, constraints and default of a configuration value.
+ */
+export interface ConfigProperty<T = any> {
+	type: 'string' | 'number' | 'boolean' | 'array' | 'object'; // Environment variables are converted to this type
+	optional?: boolean; // Allow the value to be missing
+	default?: T; // Value used when no other source sets it
+	enum?: readonly T[]; // The allowed values
+	validate?: (value: T) => boolean | string; // Custom check; return false or an error message to reject the value
+}
+
+/**
+ * Declares the configuration of an application: each key is either a property or a nested section.
+ */
+export interface ConfigSchema {
+	[key: string]: ConfigProperty | ConfigSchema;
+}
+
+// Options for loading the configuration of an application, sources listed from lowest to highest precedence
+export interface ConfigOptions {
+	schema?: ConfigSchema; // Declared values, checked by initialize(); their defaults are the lowest layer
+	defaults?: Record<string, unknown>; // Values used when neither the files nor the environment set them
+	files?: string[]; // JSON files merged in order; files that do not exist are skipped
+	env?: Record<string, string | undefined> | false; // Environment overriding the files (default: process.env), or false to ignore it
+	envPrefix?: string; // Prefix of the environment variables, e.g. 'APP_' for APP_DATABASE__URL overriding `database.url`; the environment is ignored without one
+}
+
+/**
+ * A configuration value that does not match the schema.
+ */
+export interface ConfigIssue {
+	path: string; // Dotted path of the value, e.g. 'database.url'
+	message: string; // Human-readable description of the issue
+}
+
+/**
+ * A property of a command or query that breaks one of its validation rules.
+ */
+export interface ValidationIssue {
+	path: string; // Path of the property, e.g. 'title', 'address.city' or 'items[0].name'
+	message: string; // Human-readable description of the issue
+}
+
+/**
+ * A custom validation rule, see @Validate. Returns true if the value is valid, and false
+ * or a description of the issue otherwise.
+ */
+export type ValidatorFn<TValue = any, TMessage = any> = (value: TValue, message: TMessage) => boolean | string;
+
+// A validation rule recorded on a command or query class by the validation decorators
+export interface ValidationRule {
+	propertyKey: string | symbol; // The validated property
+	validate?: ValidatorFn; // Checks the value; omitted for @ValidateNested
+	message?: string; // Replaces the description of the issue returned by `validate`
+	nested?: boolean; // Validate the rules of the object (or of each object of the array) held by the property
+}
+
+/**
+ * Turns an error thrown while a command or query was handled into the failure returned by `tryDispatch()`,
+ * e.g. a domain `NoteNotFoundError` into `ApiResult.notFound(...)`. Returns undefined to leave the error
+ * to the next mapper, and eventually to the default mapping (see `mapErrorToFailure()`).
+ */
+export type ErrorMapper = (error: unknown, message: ICommand | IQuery<unknown>) => ApiFailure<unknown> | undefined;
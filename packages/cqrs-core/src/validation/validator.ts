@@ -0,0 +1,83 @@
+import { ServiceConstructor, ValidationIssue, ValidationRule } from '../types';
+import { ValidationError } from '../ioc/errors';
+import { getOwnMetadata } from '../metadata/metadata-store';
+
+/**
+ * Checks an object, typically a command or query, against the rules declared on its properties
+ * (and those of its base classes) with the validation decorators, descending into @ValidateNested properties.
+ * Each property reports the first rule it breaks, in the order the decorators are written, and the issues of its nested objects.
+ * @param instance The object to check.
+ * @returns Every issue found; empty if the object is valid.
+ */
+export function getValidationIssues(instance: object): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	collectIssues(instance, '', issues, new Set());
+	return issues;
+}
+
+/**
+ * Checks an object against the rules declared on its properties, see `getValidationIssues()`.
+ * The dispatchers call it before resolving the handler of a command or query.
+ * @param instance The object to check.
+ * @throws ValidationError listing every issue found.
+ */
+export function assertValid(instance: object): void {
+	const issues = getValidationIssues(instance);
+	if (issues.length > 0) {
+		throw new ValidationError(instance.constructor.name, issues);
+	}
+}
+
+/**
+ * Retrieves the validation rules of a class and its base classes, base class rules first.
+ * @param target The class of the validated object.
+ * @returns The rules, in the order they were declared.
+ */
+export function getValidationRules(target: ServiceConstructor<unknown>): ValidationRule[] {
+	const hierarchy: ServiceConstructor<unknown>[] = [];
+	for (let current = target; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+		hierarchy.unshift(current);
+	}
+	return hierarchy.flatMap((current) => getOwnMetadata<ValidationRule[]>('cqrs:validation', current) || []);
+}
+
+/**
+ * Checks the properties of an object, recursing into nested objects. Objects already being
+ * checked higher up are skipped, so that cyclic references do not recurse forever.
+ */
+function collectIssues(instance: object, prefix: string, issues: ValidationIssue[], visited: Set<object>): void {
+	if (visited.has(instance)) {
+		return;
+	}
+	visited.add(instance);
+
+	const invalid = new Set<string | symbol>();
+	for (const rule of getValidationRules(instance.constructor as ServiceConstructor<unknown>)) {
+		const path = prefix + String(rule.propertyKey);
+		const value = (instance as Record<PropertyKey, unknown>)[rule.propertyKey];
+
+		if (rule.nested) {
+			if (Array.isArray(value)) {
+				value.forEach((item, index) => isObject(item) && collectIssues(item, `${path}[${index}].`, issues, visited));
+			} else if (isObject(value)) {
+				collectIssues(value, `${path}.`, issues, visited);
+			}
+			continue;
+		}
+		if (invalid.has(rule.propertyKey)) {
+			continue;
+		}
+
+		const result = rule.validate ? rule.validate(value, instance) : true;
+		if (result !== true) {
+			invalid.add(rule.propertyKey);
+			issues.push({ path, message: rule.message ?? (typeof result === 'string' ? result : 'is invalid') });
+		}
+	}
+
+	visited.delete(instance);
+}
+
+function isObject(value: unknown): value is object {
+	return typeof value === 'object' && value !== null;
+}
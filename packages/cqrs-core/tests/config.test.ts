@@ -0,0 +1,135 @@
+/* eslint-disable quotes */
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+	// Framework
+	HandlerRegistry,
+	Tmick,
+
+	// Configuration
+	ConfigService,
+	ConfigSchema,
+	ConfigValidationError,
+	configToken,
+
+	// Decorators
+	Injectable,
+	InjectConfig,
+	Config,
+} from '@tmasterd/cqrs-core';
+
+interface DatabaseConfig {
+	url: string;
+	poolSize: number;
+	ssl: boolean;
+}
+
+const schema: ConfigSchema = {
+	database: {
+		url: { type: 'string' },
+		poolSize: { type: 'number', default: 5, validate: (size: number) => size > 0 || 'must be positive' },
+		ssl: { type: 'boolean', default: false },
+	},
+	logLevel: { type: 'string', enum: ['debug', 'info', 'error'], default: 'info' },
+	tracing: { type: 'boolean', optional: true },
+};
+
+describe('Config', () => {
+	let directory: string;
+	let tmick: Tmick;
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+		directory = mkdtempSync(join(tmpdir(), 'tmick-config-'));
+	});
+
+	afterEach(async () => {
+		rmSync(directory, { recursive: true, force: true });
+		if (tmick) {
+			await tmick.dispose();
+		}
+	});
+
+	it('should layer schema defaults, defaults, JSON files and environment variables', () => {
+		const file = join(directory, 'production.json');
+		writeFileSync(file, JSON.stringify({ database: { url: 'postgres://prod', ssl: true }, logLevel: 'error' }));
+
+		const config = ConfigService.load<{ database: DatabaseConfig; logLevel: string }>({
+			schema,
+			defaults: { database: { url: 'postgres://localhost' }, logLevel: 'debug' },
+			files: [join(directory, 'default.json'), file],
+			env: { APP_DATABASE__POOL_SIZE: '20', APP_LOG_LEVEL: 'debug', APP_TRACING: 'true', DATABASE__URL: 'ignored' },
+			envPrefix: 'APP_',
+		});
+
+		expect(config.getSection('database')).toEqual({ url: 'postgres://prod', poolSize: 20, ssl: true });
+		expect(config.get('logLevel')).toBe('debug');
+		expect(config.get('tracing')).toBe(true);
+		expect(config.has('database.replica')).toBe(false);
+		expect(() => config.validate()).not.toThrow();
+	});
+
+	it('should ignore the environment when no prefix is set', () => {
+		const config = ConfigService.load({ defaults: { path: '/api', home: '/' }, env: { PATH: '/usr/bin', HOME: '/root' } });
+
+		expect(config.get('path')).toBe('/api');
+		expect(config.get('home')).toBe('/');
+	});
+
+	it('should report unparsable JSON files', () => {
+		const file = join(directory, 'broken.json');
+		writeFileSync(file, '{ database: ');
+
+		expect(() => ConfigService.load({ files: [file] })).toThrow(`Cannot parse config file '${file}'`);
+	});
+
+	it('should inject sections and values into constructor parameters and properties', () => {
+		@Injectable()
+		class Database {
+			@Config('logLevel')
+			logLevel!: string;
+
+			constructor(
+				@InjectConfig('database') public config: DatabaseConfig,
+				@Config('database.url') public url: string,
+				public configService: ConfigService
+			) {}
+		}
+
+		tmick = new Tmick({ config: { schema, defaults: { database: { url: 'postgres://localhost' } }, env: false } }).autoScanAndRegisters().initialize({ strict: true });
+		const database = tmick.get(Database);
+
+		expect(database.config).toEqual({ url: 'postgres://localhost', poolSize: 5, ssl: false });
+		expect(database.url).toBe('postgres://localhost');
+		expect(database.logLevel).toBe('info');
+		expect(database.configService).toBe(tmick.get(ConfigService));
+		expect(tmick.get(configToken('database.poolSize'))).toBe(5);
+	});
+
+	it('should validate the configuration against its schema when initialized', () => {
+		tmick = new Tmick({ config: { schema, env: { APP_DATABASE__POOL_SIZE: 'many', APP_DATABASE__SSL: 'yes', APP_LOG_LEVEL: 'trace' }, envPrefix: 'APP_' } }).autoScanAndRegisters();
+
+		let error: ConfigValidationError | undefined;
+		try {
+			tmick.initialize();
+		} catch (caught) {
+			error = caught as ConfigValidationError;
+		}
+
+		expect(error).toBeInstanceOf(ConfigValidationError);
+		expect(error?.issues).toEqual([
+			{ path: 'database.url', message: 'is required' },
+			{ path: 'database.poolSize', message: 'must be a number, got "many"' },
+			{ path: 'database.ssl', message: 'must be a boolean, got "yes"' },
+			{ path: 'logLevel', message: 'must be one of "debug", "info", "error", got "trace"' },
+		]);
+		expect(error?.message).toContain('Config validation failed with 4 issue(s):\n- database.url: is required');
+	});
+
+	it('should run the custom checks of the schema', () => {
+		tmick = new Tmick().useConfig(ConfigService.load({ schema, defaults: { database: { url: 'postgres://localhost', poolSize: 0 } }, env: false }));
+
+		expect(() => tmick.autoScanAndRegisters().initialize()).toThrow('- database.poolSize: must be positive');
+	});
+});
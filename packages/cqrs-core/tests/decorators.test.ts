@@ -20,6 +20,7 @@ import {
 	Injectable,
 	Singleton,
 	Transient,
+	Scoped,
 	Inject,
 } from '@tmasterd/cqrs-core';
 
@@ -80,7 +81,9 @@ describe('Decorators', () => {
 			async handle(command: TestCommand): Promise<void> {}
 		}
 
-		const registrations = HandlerRegistry.getRegistrations();
+		const registry = new HandlerRegistry();
+		registry.registerServiceClass(DecoratedCommandHandler);
+		const registrations = registry.getRegistrations();
 		const commandRegistration = registrations.find((r) => r.handlerType === 'command');
 		expect(commandRegistration).toBeDefined();
 		expect(commandRegistration?.targetType).toBe('TestCommand');
@@ -94,7 +97,9 @@ describe('Decorators', () => {
 			}
 		}
 
-		const registrations = HandlerRegistry.getRegistrations();
+		const registry = new HandlerRegistry();
+		registry.registerServiceClass(DecoratedQueryHandler);
+		const registrations = registry.getRegistrations();
 		const queryRegistration = registrations.find((r) => r.handlerType === 'query');
 		expect(queryRegistration).toBeDefined();
 		expect(queryRegistration?.targetType).toBe('TestQuery');
@@ -106,7 +111,9 @@ describe('Decorators', () => {
 			async handle(event: TestEvent): Promise<void> {}
 		}
 
-		const registrations = HandlerRegistry.getRegistrations();
+		const registry = new HandlerRegistry();
+		registry.registerServiceClass(DecoratedEventHandler);
+		const registrations = registry.getRegistrations();
 		const eventRegistration = registrations.find((r) => r.handlerType === 'event');
 		expect(eventRegistration).toBeDefined();
 		expect(eventRegistration?.targetType).toBe('TestEvent');
@@ -140,6 +147,16 @@ describe('Decorators', () => {
 		expect(metadata).toEqual({ singleton: false });
 	});
 
+	it('should set lifecycle metadata with @Scoped', () => {
+		@Injectable()
+		@Scoped()
+		class ScopedService {}
+
+		const metadata = Reflect.getMetadata('cqrs:lifecycle', ScopedService);
+		expect(metadata).toEqual({ singleton: false, scoped: true });
+		expect(Reflect.getMetadata('cqrs:injectable-service', ScopedService)).toMatchObject({ singleton: false, scoped: true });
+	});
+
 	it('should set parameter dependencies with @Inject', () => {
 		class ServiceWithInject {
 			constructor(@Inject('dependency1') dep1: any, @Inject('dependency2') dep2: any) {}
@@ -5,6 +5,7 @@ import {
 	CommandHandler,
 	QueryHandler,
 	EventHandler,
+	UsePipeline,
 
 	// Interfaces
 	ICommand,
@@ -13,6 +14,8 @@ import {
 	ICommandHandler,
 	IQueryHandler,
 	IDomainEventHandler,
+	ICommandPipelineBehavior,
+	CommandPipelineContext,
 
 	// Dispatchers
 	EventDispatcher,
@@ -127,7 +130,7 @@ describe('CommandDispatcher', () => {
 		const command = new TestCommand('test-data');
 		await dispatcher.dispatch(command);
 
-		expect(handleSpy).toHaveBeenCalledWith(command);
+		expect(handleSpy).toHaveBeenCalledWith(command, { attempt: 1, attempts: 1 });
 	});
 
 	it('should throw error for duplicate command handlers', () => {
@@ -143,6 +146,48 @@ describe('CommandDispatcher', () => {
 
 		await expect(dispatcher.dispatch(command)).rejects.toThrow("No handler registered for command 'TestCommand'.");
 	});
+
+	it('should run the global behaviors, then those of the handler, around the handler', async () => {
+		const calls: string[] = [];
+
+		class TracingBehavior implements ICommandPipelineBehavior<TestCommand, string> {
+			async handle(command: TestCommand, next: () => Promise<string>, context: CommandPipelineContext<TestCommand>): Promise<string> {
+				calls.push(`trace ${context.commandName} -> ${context.handlerClass.name} (${context.metadata.handlerType})`);
+				return `[${await next()}]`;
+			}
+		}
+
+		class ValidationBehavior implements ICommandPipelineBehavior<TestCommand, string> {
+			async handle(command: TestCommand, next: () => Promise<string>): Promise<string> {
+				calls.push('validate');
+				if (!command.data) {
+					throw new Error('Data is required');
+				}
+				return next();
+			}
+		}
+
+		@UsePipeline(ValidationBehavior)
+		class ValidatedCommandHandler implements ICommandHandler<TestCommand, string> {
+			async handle(command: TestCommand): Promise<string> {
+				calls.push('handle');
+				return command.data;
+			}
+		}
+
+		container.registerByClass(TracingBehavior);
+		container.registerByClass(ValidationBehavior);
+		container.registerByClass(ValidatedCommandHandler);
+		dispatcher.registerHandler('TestCommand', ValidatedCommandHandler);
+		dispatcher.addBehaviors(TracingBehavior);
+
+		await expect(dispatcher.dispatch(new TestCommand('valid'))).resolves.toBe('[valid]');
+		expect(calls).toEqual(['trace TestCommand -> ValidatedCommandHandler (command)', 'validate', 'handle']);
+
+		calls.length = 0;
+		await expect(dispatcher.dispatch(new TestCommand(''))).rejects.toThrow('Data is required');
+		expect(calls).toEqual(['trace TestCommand -> ValidatedCommandHandler (command)', 'validate']);
+	});
 });
 
 describe('QueryDispatcher', () => {
@@ -204,7 +249,7 @@ describe('EventDispatcher', () => {
 		const event = new TestEvent('test-data');
 		await dispatcher.dispatch([event]);
 
-		expect(handleSpy).toHaveBeenCalledWith(event);
+		expect(handleSpy).toHaveBeenCalledWith(event, { attempt: 1, attempts: 1 });
 	});
 
 	it('should handle multiple handlers for the same event', async () => {
@@ -221,8 +266,8 @@ describe('EventDispatcher', () => {
 		const event = new TestEvent('test-data');
 		await dispatcher.dispatch([event]);
 
-		expect(handle1Spy).toHaveBeenCalledWith(event);
-		expect(handle2Spy).toHaveBeenCalledWith(event);
+		expect(handle1Spy).toHaveBeenCalledWith(event, { attempt: 1, attempts: 1 });
+		expect(handle2Spy).toHaveBeenCalledWith(event, { attempt: 1, attempts: 1 });
 	});
 
 	it('should handle multiple events', async () => {
@@ -237,7 +282,7 @@ describe('EventDispatcher', () => {
 		await dispatcher.dispatch([event1, event2]);
 
 		expect(handleSpy).toHaveBeenCalledTimes(2);
-		expect(handleSpy).toHaveBeenNthCalledWith(1, event1);
-		expect(handleSpy).toHaveBeenNthCalledWith(2, event2);
+		expect(handleSpy).toHaveBeenNthCalledWith(1, event1, { attempt: 1, attempts: 1 });
+		expect(handleSpy).toHaveBeenNthCalledWith(2, event2, { attempt: 1, attempts: 1 });
 	});
 });
@@ -67,14 +67,17 @@ class TestService {
 }
 
 describe('HandlerRegistry', () => {
+	let registry: HandlerRegistry;
+
 	beforeEach(() => {
 		HandlerRegistry.clear();
+		registry = new HandlerRegistry();
 	});
 
 	it('should register command handlers', () => {
-		HandlerRegistry.register(TestCommandHandler, 'TestCommand', 'command');
+		registry.register(TestCommandHandler, 'TestCommand', 'command');
 
-		const registrations = HandlerRegistry.getRegistrations();
+		const registrations = registry.getRegistrations();
 		expect(registrations).toHaveLength(1);
 		expect(registrations[0]).toMatchObject({
 			handlerClass: TestCommandHandler,
@@ -84,9 +87,9 @@ describe('HandlerRegistry', () => {
 	});
 
 	it('should register query handlers', () => {
-		HandlerRegistry.register(TestQueryHandler, 'TestQuery', 'query');
+		registry.register(TestQueryHandler, 'TestQuery', 'query');
 
-		const registrations = HandlerRegistry.getRegistrations();
+		const registrations = registry.getRegistrations();
 		expect(registrations).toHaveLength(1);
 		expect(registrations[0]).toMatchObject({
 			handlerClass: TestQueryHandler,
@@ -96,9 +99,9 @@ describe('HandlerRegistry', () => {
 	});
 
 	it('should register event handlers', () => {
-		HandlerRegistry.register(TestEventHandler, 'TestEvent', 'event');
+		registry.register(TestEventHandler, 'TestEvent', 'event');
 
-		const registrations = HandlerRegistry.getRegistrations();
+		const registrations = registry.getRegistrations();
 		expect(registrations).toHaveLength(1);
 		expect(registrations[0]).toMatchObject({
 			handlerClass: TestEventHandler,
@@ -113,26 +116,26 @@ describe('HandlerRegistry', () => {
 			async handle(event: TestEvent): Promise<void> {}
 		}
 
-		HandlerRegistry.register(TestEventHandler, 'TestEvent', 'event');
-		HandlerRegistry.register(AnotherEventHandler, 'TestEvent', 'event');
+		registry.register(TestEventHandler, 'TestEvent', 'event');
+		registry.register(AnotherEventHandler, 'TestEvent', 'event');
 
-		const eventHandlersMap = HandlerRegistry.getEventHandlersMap();
+		const eventHandlersMap = registry.getEventHandlersMap();
 		expect(eventHandlersMap.get('TestEvent')).toHaveLength(2);
 	});
 
 	it('should throw error for duplicate command handlers', () => {
-		HandlerRegistry.register(TestCommandHandler, 'TestCommand', 'command');
+		registry.register(TestCommandHandler, 'TestCommand', 'command');
 
 		expect(() => {
-			HandlerRegistry.register(TestCommandHandler, 'TestCommand', 'command');
+			registry.register(TestCommandHandler, 'TestCommand', 'command');
 		}).toThrow("Command handler for 'TestCommand' already registered.");
 	});
 
 	it('should throw error for duplicate query handlers', () => {
-		HandlerRegistry.register(TestQueryHandler, 'TestQuery', 'query');
+		registry.register(TestQueryHandler, 'TestQuery', 'query');
 
 		expect(() => {
-			HandlerRegistry.register(TestQueryHandler, 'TestQuery', 'query');
+			registry.register(TestQueryHandler, 'TestQuery', 'query');
 		}).toThrow("Query handler for 'TestQuery' already registered.");
 	});
 
@@ -150,4 +153,14 @@ describe('HandlerRegistry', () => {
 		const serviceClasses = HandlerRegistry.getServiceClasses();
 		expect(serviceClasses.filter((cls) => cls === TestService)).toHaveLength(1);
 	});
+
+	it('should register the handlers declared by the decorators of a service class', () => {
+		registry.registerServiceClass(TestCommandHandler);
+		registry.registerServiceClass(TestCommandHandler);
+		registry.registerServiceClass(TestService);
+
+		expect(registry.getRegistrations()).toEqual([{ handlerClass: TestCommandHandler, targetType: 'TestCommand', handlerType: 'command' }]);
+		expect(registry.getServiceClasses()).toEqual([TestCommandHandler, TestService]);
+		expect(new HandlerRegistry().getRegistrations()).toEqual([]);
+	});
 });
@@ -18,12 +18,29 @@ import {
 	Injectable,
 	Singleton,
 	Transient,
+	Scoped,
+	Tag,
 	Inject,
+	InjectProperty,
+	InjectAll,
+	Optional,
+	Lazy,
+	PostConstruct,
+	PreDestroy,
+	UseInterceptors,
+	SkipInterceptors,
 
 	// IOC
 	CustomContainer,
 	CustomServiceContainer,
 	Token,
+	ISERVICECONTAINER_TOKEN,
+	CircularDependencyError,
+	DisposalError,
+	IDisposable,
+	lazy,
+	IInterceptor,
+	InvocationContext,
 } from '@tmasterd/cqrs-core';
 
 class TestCommand implements ICommand {
@@ -92,6 +109,14 @@ class TestRepository implements ITestRepository {
 	}
 }
 
+@Injectable()
+@Scoped()
+class TestScopedService {
+	getValue(): string {
+		return 'scoped-value';
+	}
+}
+
 @Injectable()
 class ServiceWithDependency {
 	constructor(
@@ -224,3 +249,1004 @@ describe('CustomServiceContainer', () => {
 		expect(services).toContain('TestService');
 	});
 });
+
+describe('Scoped lifetimes', () => {
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should cache scoped services per scope', () => {
+		container.registerConstructor('scopedService', TestScopedService, false, [], true);
+
+		const scope1 = container.createScope();
+		const scope2 = container.createScope();
+
+		expect(scope1.get('scopedService')).toBe(scope1.get('scopedService'));
+		expect(scope1.get('scopedService')).not.toBe(scope2.get('scopedService'));
+	});
+
+	it('should share singletons between the root container and its scopes', () => {
+		container.registerConstructor('testService', TestService, true);
+
+		const scope = container.createScope();
+		expect(scope.get('testService')).toBe(container.get('testService'));
+	});
+
+	it('should create transient services in the scope with scoped dependencies from that scope', () => {
+		container.registerConstructor('scopedService', TestScopedService, false, [], true);
+		container.registerFactory('transientService', (c) => ({ scoped: c.get('scopedService') }), false);
+
+		const scope = container.createScope();
+		const first = scope.get<{ scoped: TestScopedService }>('transientService');
+		const second = scope.get<{ scoped: TestScopedService }>('transientService');
+
+		expect(first).not.toBe(second);
+		expect(first.scoped).toBe(second.scoped);
+		expect(first.scoped).toBe(scope.get('scopedService'));
+	});
+
+	it('should keep registrations made on a scope local to it', () => {
+		const scope = container.createScope();
+		scope.registerInstance('requestId', 'req-1');
+
+		expect(scope.get('requestId')).toBe('req-1');
+		expect(container.has('requestId')).toBe(false);
+	});
+
+	it('should throw when resolving from a disposed scope', async () => {
+		container.registerConstructor('scopedService', TestScopedService, false, [], true);
+		const scope = container.createScope();
+		scope.get('scopedService');
+		await scope.dispose();
+
+		expect(() => scope.get('scopedService')).toThrow("Cannot resolve service 'scopedService' from a disposed container.");
+	});
+
+	it('should resolve the scope itself through ISERVICECONTAINER_TOKEN', () => {
+		const root = new CustomServiceContainer();
+		root.registerValue(ISERVICECONTAINER_TOKEN, root);
+		root.registerByClass(TestScopedService, false, true);
+
+		const scope = root.createScope();
+		expect(scope.get(ISERVICECONTAINER_TOKEN)).toBe(scope);
+		expect(scope.get(TestScopedService)).toBe(scope.get(TestScopedService));
+		expect(scope.get(TestScopedService)).not.toBe(root.createScope().get(TestScopedService));
+	});
+});
+
+describe('Circular dependencies', () => {
+	class A {
+		constructor(public b: unknown) {}
+	}
+	class B {
+		constructor(public c: unknown) {}
+	}
+	class C {
+		constructor(public a: unknown) {}
+	}
+
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+		container.registerConstructor(A, A, true, [B]);
+		container.registerConstructor(B, B, true, [C]);
+		container.registerConstructor(C, C, true, [A]);
+	});
+
+	it('should report the full resolution path when resolving a cycle', () => {
+		expect(() => container.get(A)).toThrow(CircularDependencyError);
+		expect(() => container.get(B)).toThrow('Circular dependency detected: B -> C -> A -> B');
+	});
+
+	it('should expose the cycle on the error', () => {
+		try {
+			container.get(A);
+			fail('Expected a CircularDependencyError');
+		} catch (error) {
+			expect((error as CircularDependencyError).path).toEqual(['A', 'B', 'C', 'A']);
+		}
+	});
+
+	it('should detect cycles through factories', () => {
+		const FIRST = new Token<unknown>('First');
+		const SECOND = new Token<unknown>('Second');
+		container.registerFactory(FIRST, (c) => c.get(SECOND));
+		container.registerFactory(SECOND, (c) => c.get(FIRST));
+
+		expect(() => container.get(FIRST)).toThrow('Circular dependency detected: First -> Second -> First');
+	});
+
+	it('should leave the container usable after a cycle was detected', () => {
+		expect(() => container.get(A)).toThrow(CircularDependencyError);
+
+		container.registerInstance(C, new C('no cycle'));
+		expect(container.get<A>(A).b).toBeInstanceOf(B);
+	});
+
+	it('should detect cycles during upfront validation without constructing services', () => {
+		const factory = jest.fn(() => new TestService());
+		container.registerFactory('testService', factory);
+
+		expect(() => container.validate()).toThrow('Circular dependency detected: A -> B -> C -> A');
+		expect(factory).not.toHaveBeenCalled();
+	});
+
+	it('should pass validation for an acyclic graph', () => {
+		container.registerInstance(C, new C('no cycle'));
+
+		expect(() => container.validate()).not.toThrow();
+	});
+});
+
+describe('Async services', () => {
+	class ConnectionPool {
+		connected = false;
+
+		@PostConstruct()
+		async connect(): Promise<void> {
+			await Promise.resolve();
+			this.connected = true;
+		}
+	}
+
+	class Repository {
+		constructor(public pool: ConnectionPool) {}
+	}
+
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should resolve async factories with getAsync', async () => {
+		container.registerAsyncFactory('keys', async () => ['key-1']);
+
+		await expect(container.getAsync('keys')).resolves.toEqual(['key-1']);
+	});
+
+	it('should refuse to resolve an uninitialized async service synchronously', () => {
+		container.registerAsyncFactory('keys', async () => ['key-1']);
+
+		expect(() => container.get('keys')).toThrow("Service 'keys' is created asynchronously. Resolve it with getAsync() or call initializeAsync() first.");
+	});
+
+	it('should await async @PostConstruct hooks before injecting the instance', async () => {
+		container.registerConstructor(ConnectionPool, ConnectionPool);
+		container.registerConstructor(Repository, Repository, true, [ConnectionPool]);
+
+		const repository = await container.getAsync<Repository>(Repository);
+		expect(repository.pool.connected).toBe(true);
+		expect(() => container.get(ConnectionPool)).not.toThrow();
+	});
+
+	it('should share a single construction between concurrent getAsync calls', async () => {
+		const factory = jest.fn(async () => ({}));
+		container.registerAsyncFactory('pool', factory);
+
+		const [first, second] = await Promise.all([container.getAsync('pool'), container.getAsync('pool')]);
+		expect(first).toBe(second);
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+
+	it('should initialize async singletons so that get() can resolve them', async () => {
+		container.registerAsyncFactory('keys', async () => ['key-1']);
+		container.registerConstructor(ConnectionPool, ConnectionPool);
+
+		await container.initializeAsync();
+
+		expect(container.get('keys')).toEqual(['key-1']);
+		expect(container.get<ConnectionPool>(ConnectionPool).connected).toBe(true);
+	});
+
+	it('should refuse to construct a service with an async @PostConstruct hook synchronously', () => {
+		const created: string[] = [];
+		class MessageBus {
+			constructor() {
+				created.push('MessageBus');
+			}
+
+			@PostConstruct()
+			async connect(): Promise<void> {
+				created.push('connect');
+			}
+		}
+		container.registerConstructor(MessageBus, MessageBus);
+
+		expect(() => container.get(MessageBus)).toThrow("Service 'MessageBus' has an asynchronous @PostConstruct hook.");
+		expect(created).toEqual([]);
+	});
+
+	it('should run synchronous @PostConstruct hooks on get()', () => {
+		class Cache {
+			warmed = false;
+
+			@PostConstruct()
+			warm(): void {
+				this.warmed = true;
+			}
+		}
+		container.registerConstructor(Cache, Cache);
+
+		expect(container.get<Cache>(Cache).warmed).toBe(true);
+	});
+});
+
+describe('Disposal', () => {
+	let container: CustomContainer;
+	let disposed: string[];
+
+	beforeEach(() => {
+		container = new CustomContainer();
+		disposed = [];
+	});
+
+	it('should dispose created instances in reverse creation order', async () => {
+		class Pool implements IDisposable {
+			async dispose(): Promise<void> {
+				disposed.push('pool');
+			}
+		}
+		class Repository {
+			constructor(public pool: Pool) {}
+
+			@PreDestroy()
+			close(): void {
+				disposed.push('repository');
+			}
+		}
+		container.registerConstructor(Pool, Pool);
+		container.registerConstructor(Repository, Repository, true, [Pool]);
+		container.get(Repository);
+
+		await container.dispose();
+
+		expect(disposed).toEqual(['repository', 'pool']);
+	});
+
+	it('should support Symbol.asyncDispose', async () => {
+		// Jest's sandbox does not expose the symbol Node defines on its main realm
+		const symbols = Symbol as unknown as { asyncDispose?: symbol };
+		const polyfilled = symbols.asyncDispose === undefined;
+		if (polyfilled) {
+			symbols.asyncDispose = Symbol('Symbol.asyncDispose');
+		}
+
+		try {
+			const asyncDispose = symbols.asyncDispose as symbol;
+			const socket = { [asyncDispose]: jest.fn(async () => undefined) };
+			container.registerFactory('socket', () => socket);
+			container.get('socket');
+
+			await container.dispose();
+
+			expect(socket[asyncDispose]).toHaveBeenCalledTimes(1);
+		} finally {
+			if (polyfilled) {
+				delete symbols.asyncDispose;
+			}
+		}
+	});
+
+	it('should not dispose transient or externally registered instances', async () => {
+		const external = { dispose: jest.fn() };
+		const transient = { dispose: jest.fn() };
+		container.registerInstance('external', external);
+		container.registerFactory('transient', () => transient, false);
+		container.get('external');
+		container.get('transient');
+
+		await container.dispose();
+
+		expect(external.dispose).not.toHaveBeenCalled();
+		expect(transient.dispose).not.toHaveBeenCalled();
+	});
+
+	it('should dispose scoped instances when the scope is disposed', async () => {
+		const connection = { dispose: jest.fn() };
+		container.registerFactory('connection', () => connection, false, true);
+		const scope = container.createScope();
+		scope.get('connection');
+
+		await scope.dispose();
+
+		expect(connection.dispose).toHaveBeenCalledTimes(1);
+	});
+
+	it('should report every failing or timed out service after disposing the others', async () => {
+		class Hanging {
+			@PreDestroy({ timeoutMs: 10 })
+			close(): Promise<void> {
+				return new Promise(() => undefined);
+			}
+		}
+		class Broken {
+			dispose(): void {
+				throw new Error('socket already closed');
+			}
+		}
+		class Healthy {
+			dispose(): void {
+				disposed.push('healthy');
+			}
+		}
+		container.registerConstructor(Healthy, Healthy);
+		container.registerConstructor(Broken, Broken);
+		container.registerConstructor(Hanging, Hanging);
+		container.get(Healthy);
+		container.get(Broken);
+		container.get(Hanging);
+
+		const error: DisposalError = await container.dispose().then(
+			() => fail('Expected a DisposalError'),
+			(e) => e
+		);
+
+		expect(error).toBeInstanceOf(DisposalError);
+		expect(error.failures.map((failure) => failure.service)).toEqual(['Hanging', 'Broken']);
+		expect(error.message).toContain("Disposing service 'Hanging' timed out after 10ms.");
+		expect(error.message).toContain('Broken: socket already closed');
+		expect(disposed).toEqual(['healthy']);
+	});
+});
+
+describe('Multi-binding', () => {
+	interface IPlugin {
+		name: string;
+	}
+
+	const PLUGIN = new Token<IPlugin>('Plugin');
+
+	class AuditPlugin implements IPlugin {
+		name = 'audit';
+	}
+
+	class MetricsPlugin implements IPlugin {
+		name = 'metrics';
+	}
+
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should resolve every implementation in registration order', () => {
+		container.registerMany(PLUGIN, [AuditPlugin, MetricsPlugin]);
+
+		expect(container.getAll(PLUGIN).map((plugin) => plugin.name)).toEqual(['audit', 'metrics']);
+		expect(container.getAll(PLUGIN)[0]).toBe(container.get(AuditPlugin));
+	});
+
+	it('should return an empty array when nothing is registered', () => {
+		expect(container.getAll(PLUGIN)).toEqual([]);
+	});
+
+	it('should inject every implementation with @InjectAll', () => {
+		class PluginHost {
+			constructor(@InjectAll(PLUGIN) public plugins: IPlugin[]) {}
+		}
+		container.registerMany(PLUGIN, [AuditPlugin]);
+		container.registerMany(PLUGIN, [MetricsPlugin]);
+		container.registerConstructor(PluginHost, PluginHost, true, container.getMetadataDependencies(PluginHost));
+
+		expect(container.get(PluginHost).plugins.map((plugin) => plugin.name)).toEqual(['audit', 'metrics']);
+	});
+
+	it('should include implementations registered on the parent in scopes', () => {
+		class RequestPlugin implements IPlugin {
+			name = 'request';
+		}
+		container.registerMany(PLUGIN, [AuditPlugin]);
+		const scope = container.createScope();
+		scope.registerMany(PLUGIN, [RequestPlugin], false, true);
+
+		expect(scope.getAll(PLUGIN).map((plugin) => plugin.name)).toEqual(['audit', 'request']);
+		expect(container.getAll(PLUGIN).map((plugin) => plugin.name)).toEqual(['audit']);
+	});
+});
+
+describe('Optional dependencies', () => {
+	interface IMetrics {
+		increment(name: string): void;
+	}
+
+	const METRICS = new Token<IMetrics>('Metrics');
+
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should inject undefined for an unregistered @Optional dependency', () => {
+		class Checkout {
+			constructor(@Optional() @Inject(METRICS) public metrics?: IMetrics) {}
+		}
+		container.registerConstructor(Checkout, Checkout, true, container.getMetadataDependencies(Checkout));
+
+		expect(container.get(Checkout).metrics).toBeUndefined();
+	});
+
+	it('should inject the default value when the dependency is not registered', () => {
+		const noopMetrics: IMetrics = { increment: () => {} };
+		class Checkout {
+			constructor(@Inject(METRICS, { optional: true, default: noopMetrics }) public metrics: IMetrics) {}
+		}
+		container.registerConstructor(Checkout, Checkout, true, container.getMetadataDependencies(Checkout));
+
+		expect(container.get(Checkout).metrics).toBe(noopMetrics);
+	});
+
+	it('should inject the registered service when it is available', async () => {
+		const metrics: IMetrics = { increment: () => {} };
+		class Checkout {
+			constructor(@Optional() @Inject(METRICS) public metrics?: IMetrics) {}
+		}
+		container.registerInstance(METRICS, metrics);
+		container.registerConstructor(Checkout, Checkout, false, container.getMetadataDependencies(Checkout));
+
+		expect(container.get(Checkout).metrics).toBe(metrics);
+		await expect(container.getAsync(Checkout)).resolves.toEqual(expect.objectContaining({ metrics }));
+	});
+
+	it('should inject undefined for an @Optional dependency that is only multi-bound', async () => {
+		class ConsoleMetrics implements IMetrics {
+			increment(): void {}
+		}
+		class Checkout {
+			constructor(@Optional() @Inject(METRICS) public metrics?: IMetrics) {}
+		}
+		container.registerMany(METRICS, [ConsoleMetrics]);
+		container.registerConstructor(Checkout, Checkout, false, container.getMetadataDependencies(Checkout));
+
+		expect(container.get(Checkout).metrics).toBeUndefined();
+		await expect(container.getAsync(Checkout)).resolves.toEqual(expect.objectContaining({ metrics: undefined }));
+	});
+
+	it('should still fail for a missing dependency that is not optional', () => {
+		class Checkout {
+			constructor(@Inject(METRICS) public metrics: IMetrics) {}
+		}
+		container.registerConstructor(Checkout, Checkout, true, container.getMetadataDependencies(Checkout));
+
+		expect(() => container.get(Checkout)).toThrow("Service 'Metrics' not registered.");
+	});
+});
+
+describe('Lazy dependencies', () => {
+	let container: CustomContainer;
+	let created: string[];
+
+	class ReportGenerator {
+		constructor() {
+			created.push('ReportGenerator');
+		}
+
+		generate(): string {
+			return `report from ${this.constructor.name}`;
+		}
+	}
+
+	beforeEach(() => {
+		container = new CustomContainer();
+		created = [];
+	});
+
+	it('should defer construction until the dependency is first used', () => {
+		class ReportHandler {
+			constructor(@Lazy() @Inject(ReportGenerator) public generator: ReportGenerator) {}
+		}
+		container.registerConstructor(ReportGenerator, ReportGenerator);
+		container.registerConstructor(ReportHandler, ReportHandler, true, container.getMetadataDependencies(ReportHandler));
+
+		const handler = container.get(ReportHandler);
+		expect(created).toEqual([]);
+
+		expect(handler.generator.generate()).toBe('report from ReportGenerator');
+		expect(handler.generator.generate()).toBe('report from ReportGenerator');
+		expect(created).toEqual(['ReportGenerator']);
+		expect(handler.generator).toBeInstanceOf(ReportGenerator);
+	});
+
+	it('should let two services reference each other with lazy(token)', () => {
+		interface IOrders {
+			customers: ICustomers;
+			describe(): string;
+		}
+		interface ICustomers {
+			orders: IOrders;
+		}
+		const ORDERS = new Token<IOrders>('Orders');
+		const CUSTOMERS = new Token<ICustomers>('Customers');
+		class OrderService implements IOrders {
+			constructor(@Inject(CUSTOMERS) public customers: ICustomers) {}
+
+			describe(): string {
+				return 'orders';
+			}
+		}
+		class CustomerService implements ICustomers {
+			constructor(@Inject(lazy(ORDERS)) public orders: IOrders) {}
+		}
+		container.registerConstructor(ORDERS, OrderService, true, container.getMetadataDependencies(OrderService));
+		container.registerConstructor(CUSTOMERS, CustomerService, true, container.getMetadataDependencies(CustomerService));
+
+		expect(() => container.validate()).not.toThrow();
+		const orders = container.get(ORDERS);
+		expect(orders.customers.orders.describe()).toBe('orders');
+		expect(orders.customers.orders.customers).toBe(orders.customers);
+	});
+});
+
+describe('Property injection', () => {
+	interface ILogger {
+		log(message: string): string;
+	}
+
+	const LOGGER = new Token<ILogger>('Logger');
+	const PREFIX = new Token<string>('Prefix');
+
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+		container.registerInstance(LOGGER, { log: (message: string) => `logged ${message}` });
+	});
+
+	it('should inject decorated properties of base classes into subclasses', () => {
+		abstract class BaseHandler {
+			@InjectProperty(LOGGER)
+			protected logger!: ILogger;
+		}
+		class CreateUserHandler extends BaseHandler {
+			@InjectProperty(PREFIX, { optional: true, default: 'user' })
+			prefix!: string;
+
+			handle(): string {
+				return this.logger.log(this.prefix);
+			}
+		}
+		container.registerConstructor(CreateUserHandler, CreateUserHandler);
+
+		expect(container.get(CreateUserHandler).handle()).toBe('logged user');
+	});
+
+	it('should inject through setters before @PostConstruct runs', async () => {
+		class AuditTrail {
+			received: string[] = [];
+			started = '';
+
+			@InjectProperty(LOGGER)
+			set logger(logger: ILogger) {
+				this.received.push(logger.log('setter'));
+			}
+
+			@PostConstruct()
+			start(): void {
+				this.started = this.received.join();
+			}
+		}
+		container.registerConstructor(AuditTrail, AuditTrail, false);
+
+		expect(container.get(AuditTrail).started).toBe('logged setter');
+		await expect(container.getAsync(AuditTrail)).resolves.toEqual(expect.objectContaining({ started: 'logged setter' }));
+	});
+
+	it('should detect cycles through injected properties', () => {
+		class Left {
+			@InjectProperty('right')
+			right!: unknown;
+		}
+		class Right {
+			constructor(@Inject(Left) public left: Left) {}
+		}
+		container.registerConstructor(Left, Left);
+		container.registerConstructor('right', Right, true, container.getMetadataDependencies(Right));
+
+		expect(() => container.validate()).toThrow(CircularDependencyError);
+	});
+});
+
+describe('Named and tagged bindings', () => {
+	interface INoteRepository {
+		kind: string;
+	}
+
+	const REPO = new Token<INoteRepository>('NoteRepository');
+
+	class InMemoryNoteRepository implements INoteRepository {
+		kind = 'memory';
+	}
+
+	class PersistentNoteRepository implements INoteRepository {
+		kind = 'persistent';
+	}
+
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+		container.registerNamed(REPO, 'test', InMemoryNoteRepository);
+		container.registerNamed(REPO, 'primary', PersistentNoteRepository);
+	});
+
+	it('should resolve implementations by name', () => {
+		expect(container.getNamed(REPO, 'primary').kind).toBe('persistent');
+		expect(container.getNamed(REPO, 'test').kind).toBe('memory');
+		expect(container.getAll(REPO).map((repo) => repo.kind)).toEqual(['memory', 'persistent']);
+		expect(() => container.getNamed(REPO, 'archive')).toThrow("Service 'NoteRepository' named 'archive' not registered.");
+	});
+
+	it('should inject the implementation selected by @Inject(identifier, { name })', async () => {
+		class NoteService {
+			constructor(
+				@Inject(REPO, { name: 'primary' }) public repository: INoteRepository,
+				@Inject(REPO, { name: 'archive', optional: true }) public archive?: INoteRepository
+			) {}
+		}
+		container.registerConstructor(NoteService, NoteService, false, container.getMetadataDependencies(NoteService));
+
+		expect(container.get(NoteService).repository.kind).toBe('persistent');
+		expect(container.get(NoteService).archive).toBeUndefined();
+		await expect(container.getAsync(NoteService)).resolves.toEqual(expect.objectContaining({ repository: container.getNamed(REPO, 'primary') }));
+	});
+
+	it('should retrieve every service carrying a tag', () => {
+		@Tag('audit')
+		class AuditLogger {}
+		@Tag('audit', 'console')
+		class ConsoleLogger {}
+		class PlainLogger {}
+		container.registerConstructor(AuditLogger, AuditLogger);
+		container.registerConstructor('consoleLogger', ConsoleLogger);
+		container.registerConstructor(ConsoleLogger, ConsoleLogger);
+		container.registerConstructor(PlainLogger, PlainLogger);
+
+		expect(container.getTagged('audit')).toEqual([container.get(AuditLogger), container.get('consoleLogger')]);
+		expect(container.createScope().getTagged('console')).toHaveLength(1);
+		expect(container.getTagged('unknown')).toEqual([]);
+	});
+});
+
+describe('Dependency analysis', () => {
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should report missing, cyclic and captive dependencies together', () => {
+		class Clock {}
+		class RequestContext {}
+		class ReportService {
+			constructor(
+				@Inject('mailer') public mailer: unknown,
+				@Inject(Clock) public clock: Clock,
+				@Inject(RequestContext) public context: RequestContext,
+				@Optional() @Inject('metrics') public metrics?: unknown
+			) {}
+		}
+		class Ping {
+			constructor(@Inject('pong') public pong: unknown) {}
+		}
+		class Pong {
+			constructor(@Inject('ping') public ping: unknown) {}
+		}
+		container.registerConstructor(Clock, Clock, false);
+		container.registerConstructor(RequestContext, RequestContext, false, [], true);
+		container.registerConstructor(ReportService, ReportService, true, container.getMetadataDependencies(ReportService));
+		container.registerConstructor('ping', Ping, true, container.getMetadataDependencies(Ping));
+		container.registerConstructor('pong', Pong, true, container.getMetadataDependencies(Pong));
+
+		expect(container.analyze().map((issue) => [issue.kind, issue.message])).toEqual([
+			['missing', "Service 'ReportService' depends on 'mailer', which is not registered."],
+			['captive', "Singleton 'ReportService' depends on transient 'Clock', which it would capture for its whole lifetime."],
+			['captive', "Singleton 'ReportService' depends on scoped 'RequestContext', which it would capture for its whole lifetime."],
+			['cycle', 'Circular dependency detected: Ping -> Pong -> Ping'],
+		]);
+	});
+
+	it('should report nothing for a sound graph', () => {
+		class Clock {}
+		class ReportService {
+			constructor(@Inject(Clock) public clock: Clock) {}
+		}
+		container.registerConstructor(Clock, Clock);
+		container.registerConstructor(ReportService, ReportService, false, container.getMetadataDependencies(ReportService));
+
+		expect(container.analyze()).toEqual([]);
+	});
+});
+
+describe('Snapshots', () => {
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should restore the registrations and singletons of a snapshot', () => {
+		class Clock {}
+		container.registerConstructor(Clock, Clock);
+		container.registerInstance('config', { env: 'test' });
+		const clock = container.get(Clock);
+
+		const snapshot = container.snapshot();
+		container.registerInstance('mailer', {});
+		container.registerMany('plugins', [Clock]);
+		container.unregister(Clock);
+
+		container.restore(snapshot);
+		expect(container.has('mailer')).toBe(false);
+		expect(container.getAll('plugins')).toEqual([]);
+		expect(container.get(Clock)).toBe(clock);
+		expect(container.get('config')).toEqual({ env: 'test' });
+	});
+
+	it('should restore a snapshot several times without it being changed', () => {
+		class Clock {}
+		container.registerConstructor(Clock, Clock);
+		const snapshot = container.snapshot();
+
+		container.restore(snapshot);
+		const first = container.get(Clock);
+		container.restore(snapshot);
+
+		expect(container.get(Clock)).not.toBe(first);
+	});
+
+	it('should unregister services without warnings when they are registered again', () => {
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+		container.registerInstance('mailer', 'smtp');
+
+		expect(container.unregister('mailer')).toBe(true);
+		expect(container.unregister('mailer')).toBe(false);
+		container.registerInstance('mailer', 'fake');
+
+		expect(container.get('mailer')).toBe('fake');
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
+
+describe('Implicit constructor injection', () => {
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should inject parameters by their declared class', () => {
+		@Injectable()
+		class Clock {}
+
+		@Injectable()
+		class Mailer {}
+
+		@Injectable()
+		class ReportService {
+			constructor(
+				public clock: Clock,
+				@Inject('mailer') public mailer: Mailer,
+				@Optional() public metrics?: Mailer
+			) {}
+		}
+		container.registerInstance('mailer', new Mailer());
+
+		const service = container.get(ReportService);
+		expect(service.clock).toBe(container.get(Clock));
+		expect(service.mailer).toBe(container.get('mailer'));
+		expect(container.getMetadataDependencies(ReportService)).toEqual([Clock, 'mailer', { identifier: Mailer, optional: true }]);
+	});
+
+	it('should require a token for parameters typed with an interface or primitive', () => {
+		interface IClock {
+			now(): number;
+		}
+
+		@Injectable()
+		class ReportService {
+			constructor(
+				@Inject('clock') public clock: IClock,
+				public title: string
+			) {}
+		}
+
+		@Injectable()
+		class AuditService {
+			constructor(public clock: IClock) {}
+		}
+
+		expect(() => container.getMetadataDependencies(ReportService)).toThrow(
+			"Cannot infer the dependency of parameter #1 of 'ReportService': its type 'String' is not a class (an interface, primitive or a type not yet defined). Decorate the parameter with @Inject(token)."
+		);
+		expect(() => container.get(AuditService)).toThrow("Cannot infer the dependency of parameter #0 of 'AuditService': its type 'Object'");
+	});
+});
+
+describe('Interceptors', () => {
+	let container: CustomContainer;
+	let calls: string[];
+
+	@Injectable()
+	class TraceInterceptor implements IInterceptor {
+		intercept(context: InvocationContext, next: () => unknown): unknown {
+			calls.push(`trace:${String(context.methodName)}`);
+			return next();
+		}
+	}
+
+	@Injectable()
+	class UppercaseInterceptor implements IInterceptor {
+		intercept(context: InvocationContext, next: () => unknown): unknown {
+			const result = next();
+			return result instanceof Promise ? result.then((value: string) => value.toUpperCase()) : (result as string).toUpperCase();
+		}
+	}
+
+	beforeEach(() => {
+		container = new CustomContainer();
+		calls = [];
+	});
+
+	it('should wrap sync and async methods with class and method interceptors, preserving this', async () => {
+		@Injectable()
+		@UseInterceptors(TraceInterceptor)
+		class GreetingService {
+			private greeting = 'hello';
+
+			greet(name: string): string {
+				return `${this.greeting} ${name}`;
+			}
+
+			@UseInterceptors(UppercaseInterceptor)
+			async greetLater(name: string): Promise<string> {
+				return this.greet(name);
+			}
+		}
+
+		const service = container.get(GreetingService);
+
+		expect(service).toBeInstanceOf(GreetingService);
+		expect(service.greet('ada')).toBe('hello ada');
+		await expect(service.greetLater('ada')).resolves.toBe('HELLO ADA');
+		expect(calls).toEqual(['trace:greet', 'trace:greetLater', 'trace:greet']);
+	});
+
+	it('should apply global interceptors outermost and let interceptors change the arguments', () => {
+		@Injectable()
+		class RedactInterceptor implements IInterceptor {
+			intercept(context: InvocationContext, next: () => unknown): unknown {
+				calls.push('redact');
+				context.args = context.args.map(() => '***');
+				return next();
+			}
+		}
+
+		@Injectable()
+		@UseInterceptors(RedactInterceptor)
+		class AuditLog {
+			record(entry: string): string {
+				return entry;
+			}
+		}
+
+		@Injectable()
+		@SkipInterceptors()
+		class HealthCheck {
+			ping(): string {
+				return 'pong';
+			}
+		}
+
+		container.addInterceptors(TraceInterceptor);
+
+		expect(container.get(AuditLog).record('password')).toBe('***');
+		expect(container.get(HealthCheck).ping()).toBe('pong');
+		expect(calls).toEqual(['trace:record', 'redact']);
+	});
+
+	it('should resolve interceptors on first use so they may depend on intercepted services', () => {
+		@Injectable()
+		class Logger {
+			lines: string[] = [];
+
+			log(line: string): void {
+				this.lines.push(line);
+			}
+		}
+
+		@Injectable()
+		class LoggingInterceptor implements IInterceptor {
+			constructor(@Inject(Logger) private logger: Logger) {}
+
+			intercept(context: InvocationContext, next: () => unknown): unknown {
+				if (context.serviceClass !== Logger) {
+					this.logger.log(String(context.methodName));
+				}
+				return next();
+			}
+		}
+
+		@Injectable()
+		class OrderService {
+			place(): string {
+				return 'placed';
+			}
+		}
+
+		container.addInterceptors(LoggingInterceptor);
+
+		expect(container.get(OrderService).place()).toBe('placed');
+		expect(container.get(Logger).lines).toEqual(['place']);
+	});
+});
+
+describe('Providers', () => {
+	let container: CustomContainer;
+
+	beforeEach(() => {
+		container = new CustomContainer();
+	});
+
+	it('should pass the declared dependencies to factory providers', () => {
+		class Config {
+			url = 'postgres://localhost';
+		}
+
+		container.registerConstructor(Config, Config);
+		container.registerProvider({ provide: 'metrics', useValue: { enabled: true } });
+		container.registerProvider({
+			provide: 'pool',
+			useFactory: (config: Config, metrics: { enabled: boolean }, tracer?: unknown) => ({ url: config.url, metrics, tracer }),
+			inject: [Config, 'metrics', { identifier: 'tracer', optional: true }],
+		});
+
+		expect(container.get('pool')).toEqual({ url: 'postgres://localhost', metrics: { enabled: true }, tracer: undefined });
+		expect(container.get('pool')).toBe(container.get('pool'));
+	});
+
+	it('should share the instance of an aliased service and register classes under identifiers', () => {
+		@Injectable()
+		@Transient()
+		class SmtpMailer {}
+
+		class Clock {}
+
+		container.registerProvider({ provide: 'mailer', useClass: SmtpMailer, singleton: true });
+		container.registerProvider({ provide: 'mail-sender', useExisting: 'mailer' });
+		container.registerProvider({ provide: 'clock', useClass: Clock });
+
+		expect(container.get('mail-sender')).toBeInstanceOf(SmtpMailer);
+		expect(container.get('mail-sender')).toBe(container.get('mailer'));
+		expect(container.get('clock')).toBe(container.get('clock'));
+	});
+
+	it('should analyze the dependencies of factory providers and aliases', () => {
+		class RequestContext {}
+		container.registerConstructor(RequestContext, RequestContext, false, [], true);
+		container.registerProvider({ provide: 'context', useExisting: RequestContext });
+		container.registerProvider({ provide: 'audit', useFactory: (context: RequestContext) => context, inject: ['context'] });
+		container.registerProvider({ provide: 'report', useFactory: (mailer: unknown) => mailer, inject: ['mailer'] });
+		container.registerProvider({ provide: 'ping', useFactory: (pong: unknown) => pong, inject: ['pong'] });
+		container.registerProvider({ provide: 'pong', useFactory: (ping: unknown) => ping, inject: ['ping'] });
+
+		expect(container.analyze().map((issue) => issue.message)).toEqual([
+			"Singleton 'audit' depends on scoped 'context', which it would capture for its whole lifetime.",
+			"Service 'report' depends on 'mailer', which is not registered.",
+			'Circular dependency detected: ping -> pong -> ping',
+		]);
+		expect(container.getDependencyGraph().nodes).toContainEqual({ id: 'context', kind: 'alias', lifetime: 'scoped' });
+	});
+
+	it('should resolve the dependencies of factory providers asynchronously', async () => {
+		container.registerAsyncFactory('connection', async () => 'connected');
+		container.registerProvider({ provide: 'repository', useFactory: (connection: string) => ({ connection }), inject: ['connection'] });
+
+		await expect(container.getAsync('repository')).resolves.toEqual({ connection: 'connected' });
+	});
+});
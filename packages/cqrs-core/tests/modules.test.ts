@@ -0,0 +1,308 @@
+/* eslint-disable quotes */
+import {
+	// Handlers
+	CommandHandler,
+	QueryHandler,
+
+	// Framework
+	HandlerRegistry,
+	Tmick,
+	Token,
+	Module,
+
+	// Interfaces
+	ICommand,
+	IQuery,
+	ICommandHandler,
+	IQueryHandler,
+
+	// Decorators
+	Injectable,
+	Scoped,
+	Transient,
+	Inject,
+	Profile,
+	PreDestroy,
+} from '@tmasterd/cqrs-core';
+
+class CreateNoteCommand implements ICommand {
+	constructor(public title: string) {}
+}
+
+class CountNotesQuery implements IQuery<number> {}
+
+interface INoteRepository {
+	save(title: string): void;
+	count(): number;
+}
+
+const NOTE_REPOSITORY = new Token<INoteRepository>('NoteRepository');
+
+@Injectable({ id: NOTE_REPOSITORY })
+class InMemoryNoteRepository implements INoteRepository {
+	private titles: string[] = [];
+
+	save(title: string): void {
+		this.titles.push(title);
+	}
+
+	count(): number {
+		return this.titles.length;
+	}
+}
+
+@Injectable()
+class TitleFormatter {
+	format(title: string): string {
+		return title.trim().toUpperCase();
+	}
+}
+
+describe('Modules', () => {
+	let tmick: Tmick;
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+	});
+
+	afterEach(async () => {
+		if (tmick) {
+			await tmick.dispose();
+		}
+	});
+
+	it('should register the handlers of each module and inject exported providers', async () => {
+		@Module({ providers: [InMemoryNoteRepository, TitleFormatter], exports: [NOTE_REPOSITORY] })
+		class PersistenceModule {}
+
+		@CommandHandler(CreateNoteCommand)
+		class CreateNoteHandler implements ICommandHandler<CreateNoteCommand, void> {
+			constructor(@Inject(NOTE_REPOSITORY) private repository: INoteRepository) {}
+
+			async handle(command: CreateNoteCommand): Promise<void> {
+				this.repository.save(command.title);
+			}
+		}
+
+		@QueryHandler(CountNotesQuery)
+		class CountNotesHandler implements IQueryHandler<CountNotesQuery, number> {
+			constructor(@Inject(NOTE_REPOSITORY) private repository: INoteRepository) {}
+
+			async handle(): Promise<number> {
+				return this.repository.count();
+			}
+		}
+
+		@Module({ imports: [PersistenceModule], handlers: [CreateNoteHandler, CountNotesHandler] })
+		class NotesModule {}
+
+		tmick = Tmick.create(NotesModule).initialize();
+		await tmick.executeCommand(new CreateNoteCommand('first'));
+		await tmick.executeCommand(new CreateNoteCommand('second'));
+
+		await expect(tmick.executeQuery(new CountNotesQuery())).resolves.toBe(2);
+		expect(tmick.getModuleContainer(NotesModule).get(NOTE_REPOSITORY)).toBe(tmick.getModuleContainer(PersistenceModule).get(NOTE_REPOSITORY));
+		expect(tmick.getModuleContainer(PersistenceModule).has(TitleFormatter)).toBe(true);
+		expect(tmick.getModuleContainer(NotesModule).has(TitleFormatter)).toBe(false);
+	});
+
+	it('should reject providers injecting services that are not exported to their module', () => {
+		@Module({ providers: [TitleFormatter] })
+		class FormattingModule {}
+
+		@Injectable()
+		class NoteService {
+			constructor(@Inject(TitleFormatter) public formatter: TitleFormatter) {}
+		}
+
+		@Module({ imports: [FormattingModule], providers: [NoteService] })
+		class NotesModule {}
+
+		expect(() => Tmick.create(NotesModule)).toThrow(
+			"Service 'TitleFormatter' required by 'NoteService' in module 'NotesModule' is provided by module 'FormattingModule', which does not export it to 'NotesModule'."
+		);
+	});
+
+	it('should re-export imported modules and share one instance of each module', () => {
+		@Module({ providers: [InMemoryNoteRepository], exports: [NOTE_REPOSITORY] })
+		class PersistenceModule {}
+
+		@Module({ imports: [PersistenceModule], exports: [PersistenceModule] })
+		class CoreModule {}
+
+		@Module({ imports: [CoreModule, PersistenceModule] })
+		class AppModule {}
+
+		tmick = Tmick.create(AppModule).initialize();
+
+		expect(tmick.getModuleContainer(AppModule).get(NOTE_REPOSITORY)).toBe(tmick.getModuleContainer(CoreModule).get(NOTE_REPOSITORY));
+	});
+
+	it('should report invalid module trees', () => {
+		class NotAModule {}
+
+		@Module({ exports: [TitleFormatter] })
+		class EmptyModule {}
+
+		@Module({ imports: [NotAModule] })
+		class BrokenModule {}
+
+		expect(() => Tmick.create(EmptyModule)).toThrow("Module 'EmptyModule' cannot export 'TitleFormatter' because it neither provides nor imports it.");
+		expect(() => Tmick.create(BrokenModule)).toThrow("Class 'NotAModule' is not a module. Decorate it with @Module().");
+	});
+
+	it('should keep scoped providers per command and honour profiles', async () => {
+		const created: string[] = [];
+
+		@Injectable()
+		@Scoped()
+		class UnitOfWork {
+			constructor() {
+				created.push('uow');
+			}
+		}
+
+		@Injectable({ id: NOTE_REPOSITORY })
+		@Profile('prod')
+		class PostgresNoteRepository extends InMemoryNoteRepository {}
+
+		@CommandHandler(CreateNoteCommand)
+		@Transient()
+		class CreateNoteHandler implements ICommandHandler<CreateNoteCommand, void> {
+			constructor(
+				@Inject(UnitOfWork) private unitOfWork: UnitOfWork,
+				@Inject(NOTE_REPOSITORY) private repository: INoteRepository
+			) {}
+
+			async handle(command: CreateNoteCommand): Promise<void> {
+				this.repository.save(command.title);
+			}
+		}
+
+		@Module({ providers: [UnitOfWork, InMemoryNoteRepository, PostgresNoteRepository], handlers: [CreateNoteHandler] })
+		class NotesModule {}
+
+		tmick = Tmick.create(NotesModule, { profiles: ['test'] }).initialize();
+		await tmick.executeCommand(new CreateNoteCommand('first'));
+		await tmick.executeCommand(new CreateNoteCommand('second'));
+
+		expect(created).toEqual(['uow', 'uow']);
+		expect(tmick.getModuleContainer(NotesModule).get(NOTE_REPOSITORY)).toBeInstanceOf(InMemoryNoteRepository);
+		expect(tmick.getModuleContainer(NotesModule).has(PostgresNoteRepository)).toBe(false);
+	});
+
+	it('should register provider objects and check the dependencies they declare', () => {
+		const NOTE_COUNTER = new Token<() => number>('NoteCounter');
+
+		@Module({
+			providers: [
+				InMemoryNoteRepository,
+				{ provide: 'notes', useExisting: NOTE_REPOSITORY },
+				{ provide: NOTE_COUNTER, useFactory: (repository: INoteRepository) => () => repository.count(), inject: ['notes'] },
+			],
+			exports: [NOTE_COUNTER],
+		})
+		class StatsModule {}
+
+		@Module({ imports: [StatsModule], providers: [{ provide: 'report', useFactory: (formatter: TitleFormatter) => formatter, inject: [TitleFormatter] }] })
+		class ReportModule {}
+
+		@Module({ providers: [TitleFormatter] })
+		class FormattingModule {}
+
+		@Module({ imports: [FormattingModule, ReportModule] })
+		class AppModule {}
+
+		expect(() => Tmick.create(AppModule)).toThrow("Service 'TitleFormatter' required by 'report' in module 'ReportModule' is provided by module 'FormattingModule'");
+
+		tmick = Tmick.create(StatsModule).initialize();
+		tmick.getModuleContainer(StatsModule).get(NOTE_REPOSITORY).save('first');
+		expect(tmick.getModuleContainer(StatsModule).get(NOTE_COUNTER)()).toBe(1);
+	});
+
+	it('should describe the providers of every module in one dependency graph', () => {
+		@Module({ providers: [InMemoryNoteRepository], exports: [NOTE_REPOSITORY] })
+		class PersistenceModule {}
+
+		@QueryHandler(CountNotesQuery)
+		class CountNotesHandler implements IQueryHandler<CountNotesQuery, number> {
+			constructor(@Inject(NOTE_REPOSITORY) private repository: INoteRepository) {}
+
+			async handle(): Promise<number> {
+				return this.repository.count();
+			}
+		}
+
+		@Module({ imports: [PersistenceModule], handlers: [CountNotesHandler] })
+		class NotesModule {}
+
+		tmick = Tmick.create(NotesModule).initialize();
+		const graph = tmick.getDependencyGraph();
+
+		expect(graph.nodes.filter((node) => node.id === 'NoteRepository')).toEqual([{ id: 'NoteRepository', kind: 'constructor', lifetime: 'singleton' }]);
+		expect(graph.edges).toEqual(
+			expect.arrayContaining([
+				{ from: 'CountNotesHandler', to: 'NoteRepository', kind: 'dependency' },
+				{ from: 'CountNotesHandler', to: 'CountNotesQuery', kind: 'handles' },
+			])
+		);
+	});
+
+	it('should dispose the providers of every module', async () => {
+		const closed: string[] = [];
+
+		@Injectable()
+		class Connection {
+			@PreDestroy()
+			close(): void {
+				closed.push('connection');
+			}
+		}
+
+		@Module({ providers: [Connection], exports: [Connection] })
+		class DatabaseModule {}
+
+		@Module({ imports: [DatabaseModule] })
+		class AppModule {}
+
+		const app = Tmick.create(AppModule).initialize();
+		app.getModuleContainer(AppModule).get(Connection);
+		await app.dispose();
+
+		expect(closed).toEqual(['connection']);
+	});
+
+	it('should dispose the modules before the application container they depend on', async () => {
+		const closed: string[] = [];
+
+		class AuditLog {
+			@PreDestroy()
+			close(): void {
+				closed.push('audit log');
+			}
+		}
+
+		@Injectable()
+		class Connection {
+			constructor(@Inject(AuditLog) private auditLog: AuditLog) {}
+
+			@PreDestroy()
+			async close(): Promise<void> {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				closed.push('connection');
+			}
+		}
+
+		@Module({ providers: [Connection], exports: [Connection] })
+		class DatabaseModule {}
+
+		@Module({ imports: [DatabaseModule] })
+		class AppModule {}
+
+		const app = Tmick.create(AppModule).registerByClass(AuditLog).initialize();
+		app.getModuleContainer(AppModule).get(Connection);
+		await app.dispose();
+
+		expect(closed).toEqual(['connection', 'audit log']);
+	});
+});
@@ -0,0 +1,171 @@
+import {
+	// Framework
+	HandlerRegistry,
+	Tmick,
+
+	// Handlers
+	QueryHandler,
+	IQuery,
+	IQueryHandler,
+	IDomainEvent,
+
+	// Query pipeline and cache
+	CacheQuery,
+	InvalidatedBy,
+	InMemoryQueryCache,
+	IQueryPipelineBehavior,
+	QueryPipelineContext,
+	QUERY_CACHE_TOKEN,
+
+	// Decorators
+	Injectable,
+} from '@tmasterd/cqrs-core';
+
+class NoteCreatedEvent implements IDomainEvent {
+	readonly occurredOn = new Date();
+	readonly eventVersion = 1;
+
+	constructor(public readonly aggregateId: string) {}
+}
+
+class NoteRenamedEvent extends NoteCreatedEvent {}
+
+@CacheQuery()
+@InvalidatedBy(NoteCreatedEvent, NoteRenamedEvent)
+class GetAllNotesQuery implements IQuery<string[]> {}
+
+@CacheQuery<GetNoteQuery>({ ttlMs: 1000, key: (query) => query.id })
+class GetNoteQuery implements IQuery<string> {
+	constructor(
+		public readonly id: string,
+		public readonly requestedBy: string
+	) {}
+}
+
+class CountNotesQuery implements IQuery<number> {}
+
+describe('Query Cache', () => {
+	let tmick: Tmick;
+	let notes: string[];
+	let handled: string[];
+	let whileHandling: (() => Promise<void>) | undefined;
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+		notes = ['first'];
+		handled = [];
+		whileHandling = undefined;
+
+		@QueryHandler(GetAllNotesQuery)
+		class GetAllNotesQueryHandler implements IQueryHandler<GetAllNotesQuery, string[]> {
+			async handle(): Promise<string[]> {
+				handled.push('GetAllNotesQuery');
+				const result = [...notes];
+				await whileHandling?.();
+				return result;
+			}
+		}
+
+		@QueryHandler(GetNoteQuery)
+		class GetNoteQueryHandler implements IQueryHandler<GetNoteQuery, string> {
+			async handle(query: GetNoteQuery): Promise<string> {
+				handled.push(`GetNoteQuery ${query.id}`);
+				return `note ${query.id}`;
+			}
+		}
+
+		@QueryHandler(CountNotesQuery)
+		class CountNotesQueryHandler implements IQueryHandler<CountNotesQuery, number> {
+			async handle(): Promise<number> {
+				handled.push('CountNotesQuery');
+				return notes.length;
+			}
+		}
+	});
+
+	afterEach(async () => {
+		jest.restoreAllMocks();
+		if (tmick) {
+			await tmick.dispose();
+		}
+	});
+
+	it('should cache query results until one of the invalidating events is dispatched', async () => {
+		tmick = new Tmick().autoScanAndRegisters().initialize();
+
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first']);
+		notes.push('second');
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first']);
+		await expect(tmick.executeQuery(new CountNotesQuery())).resolves.toBe(2);
+		await expect(tmick.executeQuery(new CountNotesQuery())).resolves.toBe(2);
+		expect(handled).toEqual(['GetAllNotesQuery', 'CountNotesQuery', 'CountNotesQuery']);
+
+		await tmick.dispatchEvents([new NoteRenamedEvent('note-1')]);
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first', 'second']);
+		await tmick.dispatchEvents([new NoteCreatedEvent('note-2')]);
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first', 'second']);
+		expect(handled.filter((name) => name === 'GetAllNotesQuery')).toHaveLength(3);
+	});
+
+	it('should invalidate results found in a pre-populated cache', async () => {
+		const queryCache = new InMemoryQueryCache();
+		queryCache.set('GetAllNotesQuery:{}', ['cached']);
+		tmick = new Tmick({ queryCache }).autoScanAndRegisters().initialize();
+
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['cached']);
+		await tmick.dispatchEvents([new NoteCreatedEvent('note-1')]);
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first']);
+		expect(handled).toEqual(['GetAllNotesQuery']);
+	});
+
+	it('should not cache a result when an invalidating event is dispatched while the query is handled', async () => {
+		tmick = new Tmick().autoScanAndRegisters().initialize();
+		whileHandling = async () => {
+			whileHandling = undefined;
+			notes.push('second');
+			await tmick.dispatchEvents([new NoteCreatedEvent('note-2')]);
+		};
+
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first']);
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first', 'second']);
+		await expect(tmick.executeQuery(new GetAllNotesQuery())).resolves.toEqual(['first', 'second']);
+		expect(handled).toEqual(['GetAllNotesQuery', 'GetAllNotesQuery']);
+	});
+
+	it('should cache results by key for their time to live', async () => {
+		const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+		tmick = new Tmick().autoScanAndRegisters().initialize();
+
+		await tmick.executeQuery(new GetNoteQuery('1', 'ada'));
+		await tmick.executeQuery(new GetNoteQuery('1', 'grace'));
+		await tmick.executeQuery(new GetNoteQuery('2', 'ada'));
+		now.mockReturnValue(1000);
+		await expect(tmick.executeQuery(new GetNoteQuery('1', 'ada'))).resolves.toBe('note 1');
+
+		expect(handled).toEqual(['GetNoteQuery 1', 'GetNoteQuery 2', 'GetNoteQuery 1']);
+	});
+
+	it('should run the query pipeline inside the cache, with a pluggable cache', async () => {
+		const calls: string[] = [];
+
+		@Injectable()
+		class TracingBehavior implements IQueryPipelineBehavior {
+			async handle(query: IQuery<unknown>, next: () => Promise<unknown>, context: QueryPipelineContext): Promise<unknown> {
+				calls.push(`${context.queryName} -> ${context.handlerClass.name}`);
+				return next();
+			}
+		}
+
+		const queryCache = new InMemoryQueryCache(1);
+		tmick = new Tmick({ queryCache }).useQueryPipeline(TracingBehavior).autoScanAndRegisters().initialize();
+
+		await tmick.executeQuery(new GetNoteQuery('1', 'ada'));
+		await tmick.executeQuery(new GetNoteQuery('1', 'ada'));
+		await tmick.executeQuery(new GetAllNotesQuery());
+		await tmick.executeQuery(new GetNoteQuery('1', 'ada'));
+
+		expect(calls).toEqual(['GetNoteQuery -> GetNoteQueryHandler', 'GetAllNotesQuery -> GetAllNotesQueryHandler', 'GetNoteQuery -> GetNoteQueryHandler']);
+		expect(tmick.get(QUERY_CACHE_TOKEN)).toBe(queryCache);
+		expect(queryCache.size).toBe(1);
+	});
+});
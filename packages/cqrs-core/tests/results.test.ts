@@ -0,0 +1,154 @@
+/* eslint-disable quotes */
+import { ApiResult } from '@tmasterd/result';
+import {
+	// Framework
+	HandlerRegistry,
+	Tmick,
+	CustomServiceContainer,
+	ISERVICECONTAINER_TOKEN,
+
+	// Handlers
+	CommandHandler,
+	QueryHandler,
+	ICommand,
+	ICommandHandler,
+	IQuery,
+	IQueryHandler,
+	QueryDispatcher,
+
+	// Results
+	ErrorMapper,
+	Required,
+} from '@tmasterd/cqrs-core';
+
+class NoteNotFoundError extends Error {
+	constructor(public readonly id: string) {
+		super(`Note not found: ${id}`);
+	}
+}
+
+class NoteTitleTakenError extends Error {}
+
+class RenameNoteCommand implements ICommand {
+	@Required()
+	title: string;
+
+	constructor(
+		public readonly id: string,
+		title: string
+	) {
+		this.title = title;
+	}
+}
+
+class GetNoteQuery implements IQuery<string> {
+	constructor(public readonly id: string) {}
+}
+
+const noteErrors: ErrorMapper = (error) => {
+	if (error instanceof NoteNotFoundError) {
+		return ApiResult.notFound(error.message, { id: error.id });
+	}
+	if (error instanceof NoteTitleTakenError) {
+		return ApiResult.conflict(error.message, null);
+	}
+	return undefined;
+};
+
+describe('Result-returning dispatch', () => {
+	let tmick: Tmick;
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+
+		@CommandHandler(RenameNoteCommand)
+		class RenameNoteCommandHandler implements ICommandHandler<RenameNoteCommand, string> {
+			async handle(command: RenameNoteCommand): Promise<string> {
+				if (command.id === 'missing') {
+					throw new NoteNotFoundError(command.id);
+				}
+				if (command.title === 'Taken') {
+					throw new NoteTitleTakenError(`Title '${command.title}' is already used`);
+				}
+				if (command.title === 'Crash') {
+					throw new Error('Database unavailable');
+				}
+				return command.title;
+			}
+		}
+
+		@QueryHandler(GetNoteQuery)
+		class GetNoteQueryHandler implements IQueryHandler<GetNoteQuery, string> {
+			async handle(query: GetNoteQuery): Promise<string> {
+				if (query.id === 'missing') {
+					throw new NoteNotFoundError(query.id);
+				}
+				return `note ${query.id}`;
+			}
+		}
+
+		tmick = new Tmick().useErrorMappers(noteErrors).autoScanAndRegisters().initialize();
+	});
+
+	afterEach(async () => {
+		await tmick.dispose();
+	});
+
+	it('should return the result of the handler as an ok success', async () => {
+		await expect(tmick.tryExecuteCommand(new RenameNoteCommand('1', 'Groceries'))).resolves.toMatchObject({
+			kind: 'success',
+			status: true,
+			code: 200,
+			message: 'RenameNoteCommand handled successfully.',
+			data: 'Groceries',
+		});
+		await expect(tmick.tryExecuteQuery(new GetNoteQuery('1'))).resolves.toMatchObject({ kind: 'success', data: 'note 1' });
+	});
+
+	it('should map errors to failures instead of throwing', async () => {
+		await expect(tmick.tryExecuteCommand(new RenameNoteCommand('missing', 'Groceries'))).resolves.toMatchObject({
+			kind: 'failure',
+			code: 404,
+			message: 'Note not found: missing',
+			errorDetails: { id: 'missing' },
+		});
+		await expect(tmick.tryExecuteQuery(new GetNoteQuery('missing'))).resolves.toMatchObject({ code: 404 });
+		await expect(tmick.tryExecuteCommand(new RenameNoteCommand('1', 'Taken'))).resolves.toMatchObject({ code: 409, message: "Title 'Taken' is already used" });
+		await expect(tmick.tryExecuteCommand(new RenameNoteCommand('1', ''))).resolves.toMatchObject({
+			code: 422,
+			errorDetails: [{ path: 'title', message: 'is required' }],
+		});
+
+		const result = await tmick.tryExecuteCommand(new RenameNoteCommand('1', 'Crash'));
+		expect(result).toMatchObject({ kind: 'failure', code: 500, message: 'Database unavailable' });
+		expect(ApiResult.isFailure(result) && result.errorDetails).toBeInstanceOf(Error);
+	});
+
+	it('should not throw before the application is initialized', async () => {
+		const uninitialized = new Tmick();
+
+		await expect(uninitialized.tryExecuteQuery(new GetNoteQuery('1'))).resolves.toMatchObject({ code: 500, message: 'Tmick Framework not initialized. Call initialize() first.' });
+	});
+
+	it('should map errors with the mappers of the dispatcher', async () => {
+		const container = new CustomServiceContainer();
+		container.registerValue(ISERVICECONTAINER_TOKEN, container);
+		const dispatcher = new QueryDispatcher(container);
+		dispatcher.addErrorMappers(() => undefined, noteErrors);
+
+		await expect(dispatcher.tryDispatch(new GetNoteQuery('1'))).resolves.toMatchObject({ code: 500, message: "No handler registered for query 'GetNoteQuery'." });
+
+		container.registerValue('GetNoteQueryHandler', { handle: async (query: GetNoteQuery) => Promise.reject(new NoteNotFoundError(query.id)) });
+		dispatcher.registerHandler('GetNoteQuery', 'GetNoteQueryHandler');
+		await expect(dispatcher.tryDispatch(new GetNoteQuery('2'))).resolves.toMatchObject({ code: 404, errorDetails: { id: '2' } });
+	});
+
+	it('should not throw when an error mapper throws', async () => {
+		tmick.useErrorMappers(() => {
+			throw new Error('mapper boom');
+		});
+
+		await expect(tmick.tryExecuteCommand(new RenameNoteCommand('1', 'Crash'))).resolves.toMatchObject({ kind: 'failure', code: 500, message: 'mapper boom' });
+		await expect(tmick.tryExecuteQuery(new GetNoteQuery('missing'))).resolves.toMatchObject({ code: 404 });
+	});
+});
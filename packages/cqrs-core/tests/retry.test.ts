@@ -0,0 +1,155 @@
+import {
+	// Framework
+	HandlerRegistry,
+	Tmick,
+
+	// Handlers
+	CommandHandler,
+	EventHandler,
+	ICommand,
+	ICommandHandler,
+	IDomainEvent,
+	IDomainEventHandler,
+	ICommandPipelineBehavior,
+	CommandPipelineContext,
+
+	// Retries
+	Retry,
+	RetryAttempt,
+	RetryContext,
+	getRetryDelay,
+	isRetryable,
+
+	// Decorators
+	Injectable,
+} from '@tmasterd/cqrs-core';
+
+class LockTimeoutError extends Error {}
+
+class ReserveSeatCommand implements ICommand {
+	constructor(
+		public readonly seat: string,
+		public readonly failures: number,
+		public readonly error: new (message: string) => Error = LockTimeoutError
+	) {}
+}
+
+class SeatReservedEvent implements IDomainEvent {
+	readonly occurredOn = new Date();
+	readonly eventVersion = 1;
+
+	constructor(
+		public readonly aggregateId: string,
+		public readonly failures: number
+	) {}
+}
+
+describe('Retry Policies', () => {
+	let tmick: Tmick;
+	let attempts: string[];
+	let reported: RetryAttempt[];
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+		attempts = [];
+		reported = [];
+
+		@Injectable()
+		class AttemptBehavior implements ICommandPipelineBehavior {
+			async handle(command: ICommand, next: () => Promise<unknown>, context: CommandPipelineContext): Promise<unknown> {
+				attempts.push(`behavior ${context.retry.attempt}/${context.retry.attempts}`);
+				return next();
+			}
+		}
+
+		@Retry({ attempts: 3, delayMs: 1, backoff: 'exponential', retryOn: [LockTimeoutError] })
+		@CommandHandler(ReserveSeatCommand)
+		class ReserveSeatCommandHandler implements ICommandHandler<ReserveSeatCommand, string> {
+			async handle(command: ReserveSeatCommand, retry: RetryContext): Promise<string> {
+				attempts.push(`handler ${retry.attempt}`);
+				if (retry.attempt <= command.failures) {
+					throw new command.error(`Seat ${command.seat} is locked`);
+				}
+				return `reserved ${command.seat} on attempt ${retry.attempt}`;
+			}
+		}
+
+		@EventHandler(SeatReservedEvent)
+		class SendTicketEventHandler implements IDomainEventHandler<SeatReservedEvent> {
+			async handle(event: SeatReservedEvent, retry: RetryContext): Promise<void> {
+				attempts.push(`ticket ${retry.attempt}`);
+				if (retry.attempt <= event.failures) {
+					throw new Error('Mail server unavailable');
+				}
+			}
+		}
+
+		@Retry({ attempts: 1 })
+		@EventHandler(SeatReservedEvent)
+		class AuditEventHandler implements IDomainEventHandler<SeatReservedEvent> {
+			async handle(): Promise<void> {
+				attempts.push('audit');
+			}
+		}
+
+		tmick = new Tmick()
+			.useCommandPipeline(AttemptBehavior)
+			.useRetryPolicy({ attempts: 2, delayMs: 1 })
+			.useRetryObservers((attempt) => reported.push(attempt))
+			.autoScanAndRegisters()
+			.initialize();
+	});
+
+	afterEach(async () => {
+		await tmick.dispose();
+	});
+
+	it('should compute the backoff delays and select the retried errors', () => {
+		expect([1, 2, 3].map((attempt) => getRetryDelay({ attempts: 4, delayMs: 50 }, attempt))).toEqual([50, 50, 50]);
+		expect([1, 2, 3, 4].map((attempt) => getRetryDelay({ attempts: 5, delayMs: 50, backoff: 'exponential', maxDelayMs: 300 }, attempt))).toEqual([50, 100, 200, 300]);
+		expect(getRetryDelay({ attempts: 2, delayMs: 200, jitter: true }, 1, () => 0.25)).toBe(150);
+		expect(getRetryDelay({ attempts: 2, delayMs: 200, jitter: 0.5 }, 1, () => 1)).toBe(100);
+
+		expect(isRetryable({ attempts: 2 }, new TypeError('any'))).toBe(true);
+		expect(isRetryable({ attempts: 2, retryOn: [LockTimeoutError] }, new LockTimeoutError())).toBe(true);
+		expect(isRetryable({ attempts: 2, retryOn: [LockTimeoutError] }, new Error())).toBe(false);
+		expect(isRetryable({ attempts: 2, retryOn: (error) => (error as Error).message === 'busy' }, new Error('busy'))).toBe(true);
+	});
+
+	it('should retry commands through the whole pipeline and report every attempt', async () => {
+		await expect(tmick.executeCommand(new ReserveSeatCommand('A1', 2))).resolves.toBe('reserved A1 on attempt 3');
+
+		expect(attempts).toEqual(['behavior 1/3', 'handler 1', 'behavior 2/3', 'handler 2', 'behavior 3/3', 'handler 3']);
+		expect(reported.map(({ attempt, outcome, delayMs }) => ({ attempt, outcome, delayMs }))).toEqual([
+			{ attempt: 1, outcome: 'retrying', delayMs: 1 },
+			{ attempt: 2, outcome: 'retrying', delayMs: 2 },
+			{ attempt: 3, outcome: 'succeeded', delayMs: undefined },
+		]);
+		expect(reported[0].handlerClass.name).toBe('ReserveSeatCommandHandler');
+		expect(reported[0]).toMatchObject({ metadata: { targetType: 'ReserveSeatCommand', handlerType: 'command' }, attempts: 3 });
+		expect(reported[0].error).toBeInstanceOf(LockTimeoutError);
+
+		attempts = [];
+		reported = [];
+		await expect(tmick.executeCommand(new ReserveSeatCommand('B2', 5))).rejects.toThrow('Seat B2 is locked');
+		expect(attempts.filter((attempt) => attempt.startsWith('handler'))).toEqual(['handler 1', 'handler 2', 'handler 3']);
+		expect(reported.map(({ outcome }) => outcome)).toEqual(['retrying', 'retrying', 'failed']);
+
+		attempts = [];
+		await expect(tmick.executeCommand(new ReserveSeatCommand('C3', 1, TypeError))).rejects.toThrow(TypeError);
+		expect(attempts).toEqual(['behavior 1/3', 'handler 1']);
+	});
+
+	it('should retry event handlers with the default policy unless they declare their own', async () => {
+		await tmick.dispatchEvents([new SeatReservedEvent('A1', 1)]);
+
+		expect(attempts.sort()).toEqual(['audit', 'ticket 1', 'ticket 2']);
+		expect(reported.map(({ handlerClass, outcome, attempts }) => `${handlerClass.name} ${outcome} of ${attempts}`).sort()).toEqual([
+			'AuditEventHandler succeeded of 1',
+			'SendTicketEventHandler retrying of 2',
+			'SendTicketEventHandler succeeded of 2',
+		]);
+
+		await expect(tmick.dispatchEvents([new SeatReservedEvent('B2', 2)])).rejects.toThrow('Mail server unavailable');
+	});
+});
@@ -0,0 +1,129 @@
+/* eslint-disable quotes */
+import * as ts from 'typescript';
+import * as core from '@tmasterd/cqrs-core';
+import { HandlerRegistry, Tmick } from '@tmasterd/cqrs-core';
+
+// The exports of the compiled source below
+interface CompiledModule {
+	GREETING: core.Token<string>;
+	calls: string[];
+	Audit: new () => { entries: string[] };
+	Greeter: core.ServiceConstructor<{ ready: boolean }>;
+	Greet: new (name: string) => core.ICommand;
+	GreetHandler: core.ServiceConstructor<{ greeter: unknown }>;
+}
+
+/**
+ * Compiles a module with standard (TC39) decorators, as a TypeScript 5 project without
+ * `experimentalDecorators` would, and evaluates it against the framework.
+ */
+function compileWithStandardDecorators(source: string, framework: typeof core = core): CompiledModule {
+	const { outputText } = ts.transpileModule(source, {
+		compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.CommonJS, experimentalDecorators: false, emitDecoratorMetadata: false },
+	});
+	const module = { exports: {} };
+	const load = (id: string) => (id === '@tmasterd/cqrs-core' ? framework : require(id));
+	new Function('require', 'module', 'exports', outputText)(load, module, module.exports);
+	return module.exports as CompiledModule;
+}
+
+const source = `
+	import { Injectable, Scoped, Inject, CommandHandler, PostConstruct, UseInterceptors, Token, IInterceptor, InvocationContext } from '@tmasterd/cqrs-core';
+
+	export const GREETING = new Token<string>('Greeting');
+	export const calls: string[] = [];
+
+	@Injectable()
+	export class Tracing implements IInterceptor {
+		intercept(context: InvocationContext, next: () => unknown) {
+			calls.push(context.methodName);
+			return next();
+		}
+	}
+
+	@Injectable()
+	@Scoped()
+	export class Audit {
+		entries: string[] = [];
+	}
+
+	@Injectable({ deps: [Audit] })
+	export class Greeter {
+		@Inject(GREETING) greeting!: string;
+		ready = false;
+
+		constructor(public audit: Audit) {}
+
+		@PostConstruct()
+		init() {
+			this.ready = true;
+		}
+
+		@UseInterceptors(Tracing)
+		greet(name: string) {
+			this.audit.entries.push(name);
+			return this.greeting + ', ' + name;
+		}
+	}
+
+	export class Greet {
+		constructor(public name: string) {}
+	}
+
+	@CommandHandler(Greet)
+	export class GreetHandler {
+		@Inject(Greeter) greeter!: Greeter;
+
+		async handle(command: Greet) {
+			return this.greeter.greet(command.name);
+		}
+	}
+`;
+
+describe('Standard Decorators', () => {
+	let tmick: Tmick;
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+	});
+
+	afterEach(async () => {
+		if (tmick) {
+			await tmick.dispose();
+		}
+	});
+
+	it('should register and inject classes decorated with standard decorators', async () => {
+		const { GREETING, Greet, Greeter, GreetHandler, calls } = compileWithStandardDecorators(source);
+
+		tmick = new Tmick({ handlers: [GreetHandler], providers: [Greeter, { provide: GREETING, useValue: 'Hello' }] }).autoScanAndRegisters().initialize();
+
+		await expect(tmick.executeCommand(new Greet('Ada'))).resolves.toBe('Hello, Ada');
+		expect(tmick.get(Greeter).ready).toBe(true);
+		expect(calls).toEqual(['greet']);
+		expect(tmick.getDependencyGraph().edges).toEqual(expect.arrayContaining([{ from: 'Greeter', to: 'Audit', kind: 'dependency' }]));
+	});
+
+	it('should not require the reflect-metadata polyfill', async () => {
+		const reflect = Reflect as unknown as Record<string, unknown>;
+		const polyfill = { defineMetadata: reflect.defineMetadata, getMetadata: reflect.getMetadata, getOwnMetadata: reflect.getOwnMetadata, hasMetadata: reflect.hasMetadata };
+		Object.keys(polyfill).forEach((name) => delete reflect[name]);
+		try {
+			// A fresh copy of the framework, loaded without the polyfill like in a project that does not install it
+			let framework = core;
+			jest.isolateModules(() => {
+				framework = require('@tmasterd/cqrs-core');
+			});
+			const { GREETING, Greet, Audit, Greeter, GreetHandler } = compileWithStandardDecorators(source, framework);
+			const app = new framework.Tmick().registerValue(GREETING, 'Hi').autoScanAndRegisters();
+
+			expect(() => app.initialize({ strict: true })).toThrow("Singleton 'Greeter' depends on scoped 'Audit'");
+			app.overrideProvider(Audit, { useValue: new Audit() }).initialize({ strict: true });
+			await expect(app.executeCommand(new Greet('Grace'))).resolves.toBe('Hi, Grace');
+			expect(app.get(GreetHandler).greeter).toBe(app.get(Greeter));
+			await app.dispose();
+		} finally {
+			Object.assign(reflect, polyfill);
+		}
+	});
+});
@@ -0,0 +1,119 @@
+/* eslint-disable quotes */
+import {
+	// Handlers
+	CommandHandler,
+
+	// Framework
+	HandlerRegistry,
+	Tmick,
+	TmickTestingModule,
+	Token,
+	Module,
+
+	// Interfaces
+	ICommand,
+	ICommandHandler,
+
+	// Decorators
+	Injectable,
+	Inject,
+} from '@tmasterd/cqrs-core';
+
+class SendWelcomeCommand implements ICommand {
+	constructor(public email: string) {}
+}
+
+interface IMailer {
+	send(to: string): string;
+}
+
+const MAILER = new Token<IMailer>('Mailer');
+
+@Injectable({ id: MAILER })
+class SmtpMailer implements IMailer {
+	send(to: string): string {
+		return `smtp:${to}`;
+	}
+}
+
+@Injectable()
+class FakeMailer implements IMailer {
+	sent: string[] = [];
+
+	send(to: string): string {
+		this.sent.push(to);
+		return `fake:${to}`;
+	}
+}
+
+describe('TmickTestingModule', () => {
+	let app: Tmick | undefined;
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+	});
+
+	afterEach(async () => {
+		await app?.dispose();
+		app = undefined;
+	});
+
+	it('should override providers of a module tree without warnings', async () => {
+		const warn = jest.spyOn(console, 'warn');
+		const fakeMailer = new FakeMailer();
+
+		@CommandHandler(SendWelcomeCommand)
+		class SendWelcomeHandler implements ICommandHandler<SendWelcomeCommand, string> {
+			constructor(@Inject(MAILER) private mailer: IMailer) {}
+
+			async handle(command: SendWelcomeCommand): Promise<string> {
+				return this.mailer.send(command.email);
+			}
+		}
+
+		@Module({ providers: [SmtpMailer], exports: [MAILER] })
+		class MailModule {}
+
+		@Module({ imports: [MailModule], handlers: [SendWelcomeHandler] })
+		class AppModule {}
+
+		app = await TmickTestingModule.create({ module: AppModule }).overrideProvider(MAILER).useValue(fakeMailer).compile();
+
+		await expect(app.executeCommand(new SendWelcomeCommand('ada@example.com'))).resolves.toBe('fake:ada@example.com');
+		expect(fakeMailer.sent).toEqual(['ada@example.com']);
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it('should override auto-scanned providers with classes and factories', async () => {
+		const CLOCK = new Token<() => number>('Clock');
+
+		app = await TmickTestingModule.create()
+			.overrideProvider(MAILER)
+			.useClass(FakeMailer)
+			.overrideProvider(CLOCK)
+			.useFactory(() => () => 42)
+			.compile();
+
+		expect(app.get(MAILER)).toBeInstanceOf(FakeMailer);
+		expect(app.get(MAILER)).toBe(app.get(MAILER));
+		expect(app.get(CLOCK)()).toBe(42);
+	});
+
+	it('should isolate tests sharing one application with container snapshots', async () => {
+		app = await TmickTestingModule.create().overrideProvider(MAILER).useClass(FakeMailer).compile();
+		const container = app.getContainer();
+		const snapshot = container.snapshot();
+
+		(app.get(MAILER) as FakeMailer).send('first@example.com');
+		container.restore(snapshot);
+
+		expect((app.get(MAILER) as FakeMailer).sent).toEqual([]);
+	});
+
+	it('should refuse overrides once the application is initialized', () => {
+		app = new Tmick().autoScanAndRegisters().initialize();
+
+		expect(() => app?.overrideProvider(MAILER, { useValue: new FakeMailer() })).toThrow('Tmick Framework already initialized. Override providers before calling initialize().');
+	});
+});
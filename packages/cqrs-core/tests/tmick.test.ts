@@ -23,7 +23,29 @@ import {
 	Injectable,
 	Singleton,
 	Transient,
+	Scoped,
+	Profile,
+	ConditionalOn,
 	Inject,
+	InjectAll,
+	PostConstruct,
+	PreDestroy,
+
+	// Errors
+	DependencyValidationError,
+
+	// Interceptors
+	IInterceptor,
+	InvocationContext,
+
+	// Command pipeline
+	ICommandPipelineBehavior,
+
+	// Dependency graph
+	DependencyGraph,
+	toDot,
+	toMermaid,
+	toJson,
 } from '@tmasterd/cqrs-core';
 
 class TestCommand implements ICommand {
@@ -92,9 +114,9 @@ describe('Tmick Framework Tests', () => {
 		tmick = new Tmick();
 	});
 
-	afterEach(() => {
+	afterEach(async () => {
 		if (tmick) {
-			tmick.dispose();
+			await tmick.dispose();
 		}
 	});
 
@@ -222,14 +244,30 @@ describe('Tmick Framework Tests', () => {
 			expect(debugInfo.initialized).toBe(true);
 		});
 
-		it('should dispose properly', () => {
+		it('should dispose properly', async () => {
 			tmick.autoScanAndRegisters().initialize();
-			tmick.dispose();
+			await tmick.dispose();
 
 			const debugInfo = tmick.getDebugInfo();
 			expect(debugInfo.initialized).toBe(false);
 			expect(debugInfo.registeredServices).toHaveLength(0);
 		});
+
+		it('should initialize again after being disposed', async () => {
+			@CommandHandler(TestCommand)
+			class TestCommandHandler implements ICommandHandler<TestCommand, string> {
+				async handle(command: TestCommand): Promise<string> {
+					return command.data;
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+			tmick.get(TestCommandHandler);
+			await tmick.dispose();
+
+			tmick.autoScanAndRegisters().initialize();
+			await expect(tmick.executeCommand(new TestCommand('again'))).resolves.toBe('again');
+		});
 	});
 
 	describe('Token Support', () => {
@@ -257,6 +295,454 @@ describe('Tmick Framework Tests', () => {
 
 			expect(() => tmick.get('NonExistentService')).toThrow("Service 'NonExistentService' not registered.");
 		});
+
+		it('should fail fast on circular dependencies when validating', () => {
+			const PING = new Token<unknown>('Ping');
+			const PONG = new Token<unknown>('Pong');
+
+			@Injectable({ id: PING })
+			class PingService {
+				constructor(@Inject(PONG) private pong: unknown) {}
+			}
+
+			@Injectable({ id: PONG })
+			class PongService {
+				constructor(@Inject(PING) private ping: unknown) {}
+			}
+
+			tmick.autoScanAndRegisters();
+
+			expect(() => tmick.validate()).toThrow('Circular dependency detected');
+		});
+	});
+
+	describe('Multi-binding', () => {
+		it('should collect @Injectable({ multi: true }) implementations under a shared token', async () => {
+			const VALIDATOR = new Token<{ validate(data: string): boolean }>('Validator');
+
+			@Injectable({ id: VALIDATOR, multi: true })
+			class NotEmptyValidator {
+				validate(data: string): boolean {
+					return data.length > 0;
+				}
+			}
+
+			@Injectable({ id: VALIDATOR, multi: true })
+			class MaxLengthValidator {
+				validate(data: string): boolean {
+					return data.length <= 5;
+				}
+			}
+
+			@CommandHandler(TestCommand)
+			class TestCommandHandler implements ICommandHandler<TestCommand, boolean> {
+				constructor(@InjectAll(VALIDATOR) private validators: { validate(data: string): boolean }[]) {}
+
+				async handle(command: TestCommand): Promise<boolean> {
+					return this.validators.every((validator) => validator.validate(command.data));
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+
+			expect(tmick.getAll(VALIDATOR)).toEqual([tmick.get(NotEmptyValidator), tmick.get(MaxLengthValidator)]);
+			await expect(tmick.executeCommand(new TestCommand('data'))).resolves.toBe(true);
+			await expect(tmick.executeCommand(new TestCommand('too long'))).resolves.toBe(false);
+		});
+	});
+
+	describe('Named bindings', () => {
+		it('should inject the named implementation registered with @Injectable({ id, name })', async () => {
+			const REPO = new Token<{ kind: string }>('NoteRepository');
+
+			@Injectable({ id: REPO, name: 'test' })
+			class InMemoryNoteRepository {
+				kind = 'memory';
+			}
+
+			@Injectable({ id: REPO, name: 'primary' })
+			class PersistentNoteRepository {
+				kind = 'persistent';
+			}
+
+			@CommandHandler(TestCommand)
+			class TestCommandHandler implements ICommandHandler<TestCommand, string> {
+				constructor(@Inject(REPO, { name: 'primary' }) private repository: { kind: string }) {}
+
+				async handle(): Promise<string> {
+					return this.repository.kind;
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+
+			expect(tmick.getNamed(REPO, 'test')).toBe(tmick.get(InMemoryNoteRepository));
+			expect(tmick.getNamed(REPO, 'primary')).toBe(tmick.get(PersistentNoteRepository));
+			await expect(tmick.executeCommand(new TestCommand('data'))).resolves.toBe('persistent');
+		});
+	});
+
+	describe('Profiles', () => {
+		const NOTE_STORE = new Token<{ kind: string }>('NoteStore');
+
+		it('should only scan classes whose profile is active', async () => {
+			@Injectable({ id: NOTE_STORE })
+			@Profile('test')
+			class InMemoryNoteStore {
+				kind = 'memory';
+			}
+
+			@Injectable({ id: NOTE_STORE })
+			@Profile('prod')
+			class PostgresNoteStore {
+				kind = 'postgres';
+			}
+
+			@Injectable()
+			@Profile('!test')
+			class MetricsExporter {}
+
+			@CommandHandler(TestCommand)
+			class TestCommandHandler implements ICommandHandler<TestCommand, string> {
+				constructor(@Inject(NOTE_STORE) private store: { kind: string }) {}
+
+				async handle(): Promise<string> {
+					return this.store.kind;
+				}
+			}
+
+			const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+			tmick = new Tmick({ profiles: ['test'] });
+			tmick.autoScanAndRegisters().initialize();
+
+			expect(tmick.getContainer().has(InMemoryNoteStore)).toBe(true);
+			expect(tmick.getContainer().has(PostgresNoteStore)).toBe(false);
+			expect(tmick.getContainer().has(MetricsExporter)).toBe(false);
+			expect(warn).not.toHaveBeenCalled();
+			await expect(tmick.executeCommand(new TestCommand('data'))).resolves.toBe('memory');
+			warn.mockRestore();
+		});
+
+		it('should skip classes and handlers whose @ConditionalOn predicate fails', async () => {
+			@Injectable()
+			@ConditionalOn(({ profiles }) => profiles.includes('tracing'))
+			class Tracer {}
+
+			@CommandHandler(TestCommand)
+			@ConditionalOn(() => false)
+			class TestCommandHandler implements ICommandHandler<TestCommand, string> {
+				async handle(): Promise<string> {
+					return 'handled';
+				}
+			}
+
+			tmick = new Tmick({ profiles: ['tracing'] });
+			tmick.autoScanAndRegisters().initialize();
+
+			expect(tmick.get(Tracer)).toBeInstanceOf(Tracer);
+			expect(tmick.getContainer().has(TestCommandHandler)).toBe(false);
+			await expect(tmick.executeCommand(new TestCommand('data'))).rejects.toThrow();
+		});
+	});
+
+	describe('Multiple Applications', () => {
+		it('should keep the handlers of applications created side by side apart', async () => {
+			@CommandHandler(TestCommand)
+			class ApiCommandHandler implements ICommandHandler<TestCommand, string> {
+				async handle(command: TestCommand): Promise<string> {
+					return `api: ${command.data}`;
+				}
+			}
+
+			@CommandHandler(TestCommand)
+			class WorkerCommandHandler implements ICommandHandler<TestCommand, string> {
+				async handle(command: TestCommand): Promise<string> {
+					return `worker: ${command.data}`;
+				}
+			}
+
+			tmick = new Tmick({ handlers: [ApiCommandHandler], providers: [TestService, { provide: 'name', useValue: 'api' }] }).autoScanAndRegisters().initialize();
+			const worker = new Tmick({ handlers: [WorkerCommandHandler] }).autoScanAndRegisters().initialize();
+
+			await expect(tmick.executeCommand(new TestCommand('job'))).resolves.toBe('api: job');
+			await expect(worker.executeCommand(new TestCommand('job'))).resolves.toBe('worker: job');
+			expect(tmick.get('name')).toBe('api');
+			expect(worker.getContainer().has(TestService)).toBe(false);
+
+			await worker.dispose();
+			await expect(tmick.executeCommand(new TestCommand('again'))).resolves.toBe('api: again');
+		});
+
+		it('should only scan the decorated classes selected by the scan filter', async () => {
+			@QueryHandler(TestQuery)
+			class ApiQueryHandler implements IQueryHandler<TestQuery, string> {
+				async handle(query: TestQuery): Promise<string> {
+					return `api: ${query.data}`;
+				}
+			}
+
+			@QueryHandler(TestQuery)
+			class WorkerQueryHandler implements IQueryHandler<TestQuery, string> {
+				async handle(query: TestQuery): Promise<string> {
+					return `worker: ${query.data}`;
+				}
+			}
+
+			expect(() => new Tmick().autoScanAndRegisters()).toThrow("Query handler for 'TestQuery' already registered.");
+
+			tmick = new Tmick({ scan: (serviceClass) => serviceClass !== WorkerQueryHandler }).autoScanAndRegisters().initialize();
+			await expect(tmick.executeQuery(new TestQuery('report'))).resolves.toBe('api: report');
+			expect(tmick.getDebugInfo().handlerRegistrations).toEqual([{ handlerClass: ApiQueryHandler, targetType: 'TestQuery', handlerType: 'query' }]);
+		});
+	});
+
+	describe('Strict Initialization', () => {
+		it('should fail with every dependency issue before the application starts', () => {
+			const MAILER = new Token<unknown>('Mailer');
+
+			@CommandHandler(TestCommand)
+			class TestCommandHandler implements ICommandHandler<TestCommand, void> {
+				constructor(
+					@Inject(MAILER) private mailer: unknown,
+					@Inject(TestTransientService) private transientService: TestTransientService
+				) {}
+
+				async handle(): Promise<void> {}
+			}
+
+			tmick.autoScanAndRegisters();
+
+			let error: DependencyValidationError | undefined;
+			try {
+				tmick.initialize({ strict: true });
+			} catch (e) {
+				error = e as DependencyValidationError;
+			}
+
+			expect(error).toBeInstanceOf(DependencyValidationError);
+			expect(error?.issues.map((issue) => issue.kind)).toEqual(['missing', 'captive']);
+			expect(error?.message).toContain("Service 'TestCommandHandler' depends on 'Mailer', which is not registered.");
+			expect(() => tmick.get(TestService)).toThrow('Tmick Framework not initialized');
+		});
+
+		it('should start when the dependency graph is sound', () => {
+			tmick.registerValue(TEST_REPOSITORY_TOKEN, new TestRepository()).autoScanAndRegisters();
+
+			expect(() => tmick.initialize({ strict: true })).not.toThrow();
+		});
+	});
+
+	describe('Dependency Graph', () => {
+		it('should describe services, their dependencies and the messages handlers handle', () => {
+			const CLOCK = new Token<unknown>('Clock');
+
+			@Injectable()
+			@Transient()
+			class AuditLog {
+				constructor(@Inject(CLOCK) public clock: unknown) {}
+			}
+
+			@CommandHandler(TestCommand)
+			class AuditedCommandHandler implements ICommandHandler<TestCommand, void> {
+				constructor(@Inject(AuditLog) private auditLog: AuditLog) {}
+
+				async handle(): Promise<void> {}
+			}
+
+			tmick
+				.registerFactory(CLOCK, () => Date)
+				.autoScanAndRegisters()
+				.initialize();
+			const graph = tmick.getDependencyGraph();
+
+			expect(graph.nodes).toEqual(
+				expect.arrayContaining([
+					{ id: 'AuditLog', kind: 'constructor', lifetime: 'transient' },
+					{ id: 'Clock', kind: 'factory', lifetime: 'singleton' },
+					{ id: 'TestCommand', kind: 'command' },
+				])
+			);
+			expect(graph.edges).toEqual(
+				expect.arrayContaining([
+					{ from: 'AuditedCommandHandler', to: 'AuditLog', kind: 'dependency' },
+					{ from: 'AuditLog', to: 'Clock', kind: 'dependency' },
+					{ from: 'AuditedCommandHandler', to: 'TestCommand', kind: 'handles' },
+				])
+			);
+		});
+
+		it('should render the graph as DOT, Mermaid and JSON', () => {
+			const graph: DependencyGraph = {
+				nodes: [
+					{ id: 'NoteHandler', kind: 'constructor', lifetime: 'singleton' },
+					{ id: 'Mailer', kind: 'instance', lifetime: 'singleton' },
+					{ id: 'CreateNote', kind: 'command' },
+				],
+				edges: [
+					{ from: 'NoteHandler', to: 'Mailer', kind: 'dependency', lazy: true },
+					{ from: 'NoteHandler', to: 'Clock', kind: 'dependency' },
+					{ from: 'NoteHandler', to: 'CreateNote', kind: 'handles' },
+				],
+			};
+
+			expect(toDot(graph)).toBe(
+				[
+					'digraph dependencies {',
+					'\trankdir=LR;',
+					'\t"NoteHandler" [label="NoteHandler\\nsingleton constructor", shape=box];',
+					'\t"Mailer" [label="Mailer\\nsingleton instance", shape=box];',
+					'\t"CreateNote" [label="CreateNote\\ncommand", shape=ellipse];',
+					'\t"NoteHandler" -> "Mailer" [style=dashed];',
+					'\t"NoteHandler" -> "Clock";',
+					'\t"NoteHandler" -> "CreateNote" [label="handles"];',
+					'}',
+				].join('\n')
+			);
+			expect(toMermaid(graph)).toBe(
+				[
+					'flowchart LR',
+					'\tn0["NoteHandler<br/>singleton constructor"]',
+					'\tn1["Mailer<br/>singleton instance"]',
+					'\tn2(["CreateNote<br/>command"])',
+					'\tn0 -.-> n1',
+					'\tn3["Clock"]',
+					'\tn0 --> n3',
+					'\tn0 -- handles --> n2',
+				].join('\n')
+			);
+			expect(JSON.parse(toJson(graph))).toEqual(graph);
+		});
+
+		it('should render useExisting providers as services', () => {
+			const MAILER = new Token<TestService>('Mailer');
+			tmick.registerByClass(TestService).registerProvider({ provide: MAILER, useExisting: TestService });
+			const graph = tmick.getDependencyGraph();
+
+			expect(graph.nodes).toEqual(expect.arrayContaining([{ id: 'Mailer', kind: 'alias', lifetime: 'singleton' }]));
+			expect(toDot(graph)).toContain('\t"Mailer" [label="Mailer\\nsingleton alias", shape=box];');
+			expect(toMermaid(graph)).toMatch(/\tn\d+\["Mailer<br\/>singleton alias"\]/);
+		});
+	});
+
+	describe('Global Interceptors', () => {
+		it('should intercept handlers but not the dispatchers', async () => {
+			const intercepted: string[] = [];
+
+			@Injectable()
+			class TimingInterceptor implements IInterceptor {
+				async intercept(context: InvocationContext, next: () => unknown): Promise<unknown> {
+					const result = await next();
+					intercepted.push(`${context.serviceClass.name}.${String(context.methodName)}`);
+					return result;
+				}
+			}
+
+			@CommandHandler(TestCommand)
+			class TimedCommandHandler implements ICommandHandler<TestCommand, string> {
+				async handle(command: TestCommand): Promise<string> {
+					return command.data;
+				}
+			}
+
+			tmick.useGlobalInterceptors(TimingInterceptor).autoScanAndRegisters().initialize();
+
+			await expect(tmick.executeCommand(new TestCommand('timed'))).resolves.toBe('timed');
+			expect(intercepted).toEqual(['TimedCommandHandler.handle']);
+		});
+	});
+
+	describe('Command Pipeline', () => {
+		it('should run the global behaviors in the scope of each command', async () => {
+			@Injectable()
+			@Scoped()
+			class UnitOfWork {
+				committed = false;
+			}
+
+			@Injectable()
+			@Transient()
+			class TransactionBehavior implements ICommandPipelineBehavior {
+				constructor(@Inject(UnitOfWork) private unitOfWork: UnitOfWork) {}
+
+				async handle(command: TestCommand, next: () => Promise<UnitOfWork>): Promise<UnitOfWork> {
+					const result = await next();
+					this.unitOfWork.committed = true;
+					return result;
+				}
+			}
+
+			@CommandHandler(TestCommand)
+			@Transient()
+			class TransactionalCommandHandler implements ICommandHandler<TestCommand, UnitOfWork> {
+				constructor(@Inject(UnitOfWork) private unitOfWork: UnitOfWork) {}
+
+				async handle(): Promise<UnitOfWork> {
+					expect(this.unitOfWork.committed).toBe(false);
+					return this.unitOfWork;
+				}
+			}
+
+			tmick.autoScanAndRegisters().useCommandPipeline(TransactionBehavior).initialize();
+
+			const first = await tmick.executeCommand<TestCommand, UnitOfWork>(new TestCommand('one'));
+			const second = await tmick.executeCommand<TestCommand, UnitOfWork>(new TestCommand('two'));
+			expect(first.committed).toBe(true);
+			expect(second.committed).toBe(true);
+			expect(first).not.toBe(second);
+		});
+	});
+
+	describe('Async Initialization', () => {
+		it('should resolve async singletons before commands are executed', async () => {
+			const DB_POOL = new Token<{ ready: boolean }>('DbPool');
+
+			@Injectable()
+			class KeyStore {
+				keys: string[] = [];
+
+				@PostConstruct()
+				async load(): Promise<void> {
+					this.keys = await Promise.resolve(['k1']);
+				}
+			}
+
+			@CommandHandler(TestCommand)
+			class TestCommandHandler implements ICommandHandler<TestCommand, string[]> {
+				constructor(
+					@Inject(KeyStore) private keyStore: KeyStore,
+					@Inject(DB_POOL) private pool: { ready: boolean }
+				) {}
+
+				async handle(): Promise<string[]> {
+					return this.pool.ready ? this.keyStore.keys : [];
+				}
+			}
+
+			tmick.registerAsyncFactory(DB_POOL, async () => ({ ready: true }));
+			await tmick.autoScanAndRegisters().initializeAsync();
+
+			await expect(tmick.executeCommand(new TestCommand('data'))).resolves.toEqual(['k1']);
+		});
+	});
+
+	describe('Graceful Shutdown', () => {
+		it('should dispose singletons created by the container', async () => {
+			const closed: string[] = [];
+
+			@Injectable()
+			class MessageBus {
+				@PreDestroy()
+				async close(): Promise<void> {
+					closed.push('bus');
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+			tmick.get(MessageBus);
+			await tmick.dispose();
+
+			expect(closed).toEqual(['bus']);
+		});
 	});
 
 	describe('Lifecycle Management', () => {
@@ -269,6 +755,107 @@ describe('Tmick Framework Tests', () => {
 			expect(instance1).toBe(instance2);
 		});
 
+		it('should create scoped services once per scope', () => {
+			@Injectable()
+			@Scoped()
+			class RequestContext {}
+
+			tmick.autoScanAndRegisters().initialize();
+
+			const scope1 = tmick.createScope();
+			const scope2 = tmick.createScope();
+			expect(scope1.get(RequestContext)).toBe(scope1.get(RequestContext));
+			expect(scope1.get(RequestContext)).not.toBe(scope2.get(RequestContext));
+		});
+
+		it('should resolve command handlers in a fresh scope per command', async () => {
+			const contexts: unknown[] = [];
+
+			@Injectable()
+			@Scoped()
+			class CommandContext {}
+
+			@CommandHandler(TestCommand)
+			@Transient()
+			class ScopedCommandHandler implements ICommandHandler<TestCommand, void> {
+				constructor(
+					@Inject(CommandContext) private first: CommandContext,
+					@Inject(CommandContext) private second: CommandContext
+				) {}
+
+				async handle(): Promise<void> {
+					expect(this.first).toBe(this.second);
+					contexts.push(this.first);
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+			await tmick.executeCommand(new TestCommand('one'));
+			await tmick.executeCommand(new TestCommand('two'));
+
+			expect(contexts).toHaveLength(2);
+			expect(contexts[0]).not.toBe(contexts[1]);
+		});
+
+		it('should resolve query handlers in a fresh scope per query', async () => {
+			const contexts: unknown[] = [];
+
+			@Injectable()
+			@Scoped()
+			class QueryContext {}
+
+			@QueryHandler(TestQuery)
+			@Transient()
+			class ScopedQueryHandler implements IQueryHandler<TestQuery, string> {
+				constructor(@Inject(QueryContext) private context: QueryContext) {}
+
+				async handle(query: TestQuery): Promise<string> {
+					contexts.push(this.context);
+					return query.data;
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+			await tmick.executeQuery(new TestQuery('one'));
+			await tmick.executeQuery(new TestQuery('two'));
+
+			expect(contexts).toHaveLength(2);
+			expect(contexts[0]).not.toBe(contexts[1]);
+		});
+
+		it('should keep the outcome of a command when its scope fails to dispose', async () => {
+			const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+			@Injectable()
+			@Scoped()
+			class CommandContext {
+				@PreDestroy()
+				close(): void {
+					throw new Error('close failed');
+				}
+			}
+
+			@CommandHandler(TestCommand)
+			@Transient()
+			class FailingScopeCommandHandler implements ICommandHandler<TestCommand, string> {
+				constructor(@Inject(CommandContext) private context: CommandContext) {}
+
+				async handle(command: TestCommand): Promise<string> {
+					if (command.data === 'fail') {
+						throw new Error('handler failed');
+					}
+					return command.data;
+				}
+			}
+
+			tmick.autoScanAndRegisters().initialize();
+
+			await expect(tmick.executeCommand(new TestCommand('ok'))).resolves.toBe('ok');
+			await expect(tmick.executeCommand(new TestCommand('fail'))).rejects.toThrow('handler failed');
+			expect(logged).toHaveBeenCalledTimes(2);
+			logged.mockRestore();
+		});
+
 		it('should respect transient lifecycle', () => {
 			tmick.registerByClass(TestTransientService, false);
 			tmick.autoScanAndRegisters().initialize();
@@ -0,0 +1,164 @@
+/* eslint-disable quotes */
+import {
+	// Framework
+	HandlerRegistry,
+	Tmick,
+
+	// Handlers
+	CommandHandler,
+	QueryHandler,
+	ICommand,
+	ICommandHandler,
+	IQuery,
+	IQueryHandler,
+
+	// Validation
+	Required,
+	MaxLength,
+	Matches,
+	ValidateNested,
+	Validate,
+	ValidationError,
+	getValidationIssues,
+} from '@tmasterd/cqrs-core';
+
+class Address {
+	@Required()
+	city: string;
+
+	@Matches(/^\d{5}$/, 'must be a 5-digit code')
+	zip?: string;
+
+	constructor(city: string, zip?: string) {
+		this.city = city;
+		this.zip = zip;
+	}
+}
+
+class Attendee {
+	@Required()
+	@MaxLength(10)
+	name: string;
+
+	constructor(name: string) {
+		this.name = name;
+	}
+}
+
+class BookingCommand implements ICommand {
+	@Required()
+	@Matches(/^[a-z-]+$/)
+	slug: string;
+
+	@Validate((end: number, command: BookingCommand) => end > command.start || 'must be after the start')
+	end: number;
+
+	@ValidateNested()
+	address?: Address;
+
+	@MaxLength(2)
+	@ValidateNested()
+	attendees: Attendee[];
+
+	constructor(
+		slug: string,
+		public start: number,
+		end: number,
+		attendees: Attendee[] = [],
+		address?: Address
+	) {
+		this.slug = slug;
+		this.end = end;
+		this.attendees = attendees;
+		this.address = address;
+	}
+}
+
+class PriorityBookingCommand extends BookingCommand {
+	@Required('needs an approver')
+	approver?: string;
+}
+
+class SearchQuery implements IQuery<string[]> {
+	@Required()
+	@MaxLength(5)
+	term: string;
+
+	constructor(term: string) {
+		this.term = term;
+	}
+}
+
+describe('Validation', () => {
+	let tmick: Tmick;
+	let handled: unknown[];
+
+	beforeEach(() => {
+		HandlerRegistry.clear();
+		handled = [];
+
+		@CommandHandler(BookingCommand)
+		class BookingCommandHandler implements ICommandHandler<BookingCommand, string> {
+			async handle(command: BookingCommand): Promise<string> {
+				handled.push(command);
+				return command.slug;
+			}
+		}
+
+		@QueryHandler(SearchQuery)
+		class SearchQueryHandler implements IQueryHandler<SearchQuery, string[]> {
+			async handle(query: SearchQuery): Promise<string[]> {
+				handled.push(query);
+				return [query.term];
+			}
+		}
+
+		tmick = new Tmick().autoScanAndRegisters().initialize();
+	});
+
+	afterEach(async () => {
+		await tmick.dispose();
+	});
+
+	it('should report every field issue, including those of nested objects', () => {
+		const command = new BookingCommand('Team Offsite', 10, 5, [new Attendee('Ada'), new Attendee(''), new Attendee('Grace Hopper')], new Address('', '123'));
+
+		expect(getValidationIssues(command)).toEqual([
+			{ path: 'slug', message: 'must match /^[a-z-]+$/' },
+			{ path: 'end', message: 'must be after the start' },
+			{ path: 'address.city', message: 'is required' },
+			{ path: 'address.zip', message: 'must be a 5-digit code' },
+			{ path: 'attendees', message: 'must have at most 2 items' },
+			{ path: 'attendees[1].name', message: 'is required' },
+			{ path: 'attendees[2].name', message: 'must be at most 10 characters long' },
+		]);
+		expect(getValidationIssues(new BookingCommand('offsite', 10, 20, [new Attendee('Ada')], new Address('Paris')))).toEqual([]);
+	});
+
+	it('should inherit the rules of base classes', () => {
+		expect(getValidationIssues(new PriorityBookingCommand('', 1, 2))).toEqual([
+			{ path: 'slug', message: 'is required' },
+			{ path: 'approver', message: 'needs an approver' },
+		]);
+	});
+
+	it('should reject invalid commands and queries before resolving their handler', async () => {
+		let error: ValidationError | undefined;
+		try {
+			await tmick.executeCommand(new BookingCommand('', 1, 2));
+		} catch (caught) {
+			error = caught as ValidationError;
+		}
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error?.target).toBe('BookingCommand');
+		expect(error?.issues).toEqual([{ path: 'slug', message: 'is required' }]);
+		expect(error?.message).toBe("Validation of 'BookingCommand' failed with 1 issue(s):\n- slug: is required");
+
+		await expect(tmick.executeQuery(new SearchQuery('validation'))).rejects.toThrow('- term: must be at most 5 characters long');
+		expect(handled).toEqual([]);
+
+		await expect(tmick.executeCommand(new BookingCommand('offsite', 1, 2))).resolves.toBe('offsite');
+		await expect(tmick.executeQuery(new SearchQuery('notes'))).resolves.toEqual(['notes']);
+	});
+});
@@ -2,8 +2,9 @@ import { Tmick } from '@tmasterd/cqrs-core';
 import { CreateNoteCommand, UpdateNoteCommand, DeleteNoteCommand } from './commands';
 import { GetNoteByIdQuery, GetAllNotesQuery } from './queries';
 import { INote } from './domain';
+import { CommandLoggingBehavior } from './service';
 
-// Import handler classes to ensure they are registered with HandlerRegistry
+// Import handler classes to ensure they are discovered for auto-scanning
 import './command-handlers';
 import './query-handlers';
 import './event-handlers';
@@ -20,7 +21,18 @@ export async function runCqrsExample() {
 	// This finds ConsoleLogger, InMemoryNoteRepository, and all Command/Query/Event handlers.
 	app.autoScanAndRegisters();
 
-	// 2. Initialize the framework
+	// 2. Run every command through the command pipeline, which logs it in one place rather than in each handler
+	app.useCommandPipeline(CommandLoggingBehavior);
+
+	// Retry handlers failing with transient errors, and log each retry
+	app.useRetryPolicy({ attempts: 3, backoff: 'exponential', delayMs: 50, jitter: true });
+	app.useRetryObservers(({ handlerClass, attempt, attempts, outcome, delayMs }) => {
+		if (outcome === 'retrying') {
+			console.log(`[RETRY] ${handlerClass.name} failed attempt ${attempt}/${attempts}, retrying in ${delayMs}ms`);
+		}
+	});
+
+	// 3. Initialize the framework
 	app.initialize();
 
 	console.log('\n--- Debug Info After Auto-Registration ---');
@@ -97,5 +109,5 @@ export async function runCqrsExample() {
 	}
 
 	console.log('\n--- CQRS Example Complete ---');
-	app.dispose(); // Clean up resources
+	await app.dispose(); // Clean up resources
 }
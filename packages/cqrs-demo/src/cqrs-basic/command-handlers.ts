@@ -2,7 +2,7 @@ import { ICommandHandler, CommandHandler, Inject, Injectable, IEventDispatcher,
 
 import { INoteRepository, InMemoryNoteRepository, ILogger, ConsoleLogger } from './service';
 import { CreateNoteCommand, UpdateNoteCommand, DeleteNoteCommand } from './commands';
-import { Note } from './domain';
+import { Note, NoteNotFoundError } from './domain';
 import { NoteCreatedEvent, NoteUpdatedEvent, NoteDeletedEvent } from './events';
 
 @Injectable()
@@ -15,8 +15,6 @@ export class CreateNoteCommandHandler implements ICommandHandler<CreateNoteComma
 	) {}
 
 	async handle(command: CreateNoteCommand): Promise<void> {
-		this.logger.log(`Handling CreateNoteCommand for: "${command.title}"`);
-
 		// The repository will assign an ID and creation dates
 		const newNote = new Note('', command.title, command.content, new Date(), new Date());
 		await this.noteRepository.save(newNote); // ID is generated here
@@ -38,12 +36,11 @@ export class UpdateNoteCommandHandler implements ICommandHandler<UpdateNoteComma
 	) {}
 
 	async handle(command: UpdateNoteCommand): Promise<void> {
-		this.logger.log(`Handling UpdateNoteCommand for ID: ${command.id}`);
 		const existingNote = await this.noteRepository.findById(command.id);
 
 		if (!existingNote) {
 			this.logger.error(`Note with ID ${command.id} not found for update.`);
-			throw new Error(`Note not found: ${command.id}`);
+			throw new NoteNotFoundError(command.id);
 		}
 
 		existingNote.title = command.title !== undefined ? command.title : existingNote.title;
@@ -67,12 +64,11 @@ export class DeleteNoteCommandHandler implements ICommandHandler<DeleteNoteComma
 	) {}
 
 	async handle(command: DeleteNoteCommand): Promise<void> {
-		this.logger.log(`Handling DeleteNoteCommand for ID: ${command.id}`);
 		const deleted = await this.noteRepository.delete(command.id);
 
 		if (!deleted) {
 			this.logger.warn(`Note with ID ${command.id} not found for deletion.`);
-			throw new Error(`Note not found: ${command.id}`);
+			throw new NoteNotFoundError(command.id);
 		}
 		this.logger.log(`Note deleted: ${command.id}`);
 		await this.eventDispatcher.dispatch([new NoteDeletedEvent(command.id)]);
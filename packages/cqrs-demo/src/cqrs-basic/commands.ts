@@ -1,20 +1,36 @@
-import { ICommand } from '@tmasterd/cqrs-core';
+import { ICommand, Required, MaxLength, Validate } from '@tmasterd/cqrs-core';
 
-// Command to create a new note
+// Command to create a new note; the dispatcher rejects it with a ValidationError if it breaks its rules
 export class CreateNoteCommand implements ICommand {
-	constructor(
-		public readonly title: string,
-		public readonly content: string
-	) {}
+	@Required()
+	@MaxLength(100)
+	public readonly title: string;
+
+	@Required()
+	public readonly content: string;
+
+	constructor(title: string, content: string) {
+		this.title = title;
+		this.content = content;
+	}
 }
 
 // Command to update an existing note
 export class UpdateNoteCommand implements ICommand {
-	constructor(
-		public readonly id: string,
-		public readonly title?: string,
-		public readonly content?: string
-	) {}
+	@Required()
+	public readonly id: string;
+
+	@MaxLength(100)
+	public readonly title?: string;
+
+	@Validate((content: string | undefined, command: UpdateNoteCommand) => content !== undefined || command.title !== undefined, 'title or content is required')
+	public readonly content?: string;
+
+	constructor(id: string, title?: string, content?: string) {
+		this.id = id;
+		this.title = title;
+		this.content = content;
+	}
 }
 
 // Command to delete a note
@@ -16,3 +16,11 @@ export class Note implements INote {
 		public updatedAt: Date
 	) {}
 }
+
+// Thrown by the command handlers when the note to change does not exist
+export class NoteNotFoundError extends Error {
+	constructor(public readonly noteId: string) {
+		super(`Note not found: ${noteId}`);
+		this.name = 'NoteNotFoundError';
+	}
+}
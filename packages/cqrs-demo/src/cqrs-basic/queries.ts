@@ -1,12 +1,15 @@
-import { IQuery } from '@tmasterd/cqrs-core';
+import { IQuery, CacheQuery, InvalidatedBy } from '@tmasterd/cqrs-core';
 import { INote } from './domain';
+import { NoteCreatedEvent, NoteUpdatedEvent, NoteDeletedEvent } from './events';
 
 // Query to get a single note by its ID
 export class GetNoteByIdQuery implements IQuery<INote | undefined> {
 	constructor(public readonly id: string) {}
 }
 
-// Query to get all notes
+// Query to get all notes; a hot read model, cached until a note changes
+@CacheQuery()
+@InvalidatedBy(NoteCreatedEvent, NoteUpdatedEvent, NoteDeletedEvent)
 export class GetAllNotesQuery implements IQuery<INote[]> {
 	// No parameters needed for getting all notes
 }
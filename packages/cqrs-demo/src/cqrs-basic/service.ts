@@ -1,4 +1,4 @@
-import { Injectable, Singleton, Inject } from '@tmasterd/cqrs-core';
+import { Injectable, Singleton, Inject, ICommand, ICommandPipelineBehavior, CommandPipelineContext } from '@tmasterd/cqrs-core';
 import { INote } from './domain';
 
 // Service 1: Logger (Singleton)
@@ -73,3 +73,20 @@ export class InMemoryNoteRepository implements INoteRepository {
 		return deleted;
 	}
 }
+
+// Service 3: Command logging (a behavior of the command pipeline, wrapping every command handler)
+@Injectable()
+@Singleton()
+export class CommandLoggingBehavior implements ICommandPipelineBehavior {
+	constructor(@Inject(ConsoleLogger) private logger: ILogger) {}
+
+	async handle(command: ICommand, next: () => Promise<unknown>, context: CommandPipelineContext): Promise<unknown> {
+		this.logger.log(`Handling ${context.commandName} with ${context.handlerClass.name}`);
+		try {
+			return await next();
+		} catch (error) {
+			this.logger.error(`${context.commandName} failed:`, error instanceof Error ? error.message : error);
+			throw error;
+		}
+	}
+}
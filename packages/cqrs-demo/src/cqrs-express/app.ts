@@ -1,8 +1,8 @@
 import express from 'express';
 import { Tmick } from '@tmasterd/cqrs-core';
-import { NoteController } from './controller';
+import { NoteController, noteErrorMapper } from './controller';
 
-// Import handler classes to ensure they are registered with HandlerRegistry
+// Import handler classes to ensure they are discovered for auto-scanning
 // These imports are crucial for Tmick's autoScanAndRegisters to discover them.
 import './command-handlers';
 import './query-handlers';
@@ -18,6 +18,9 @@ app.use(express.json()); // Middleware to parse JSON request bodies
 export async function startServer(port = 3000) {
 	const tmickApp = new Tmick();
 
+	// Turn the errors of the note handlers into HTTP failures for the controller's tryDispatch() calls
+	tmickApp.useErrorMappers(noteErrorMapper);
+
 	// Auto-scan and registers all decorated services and handlers found.
 	tmickApp.autoScanAndRegisters();
 	tmickApp.initialize(); // Initialize the framework
@@ -1,10 +1,22 @@
 import { Request, Response } from 'express';
-import { Injectable, Inject, ICommandDispatcher, IQueryDispatcher, COMMAND_DISPATCHER_TOKEN, QUERY_DISPATCHER_TOKEN } from '@tmasterd/cqrs-core';
+import { ApiResult } from '@tmasterd/result';
+import { Injectable, Inject, ICommandDispatcher, IQueryDispatcher, COMMAND_DISPATCHER_TOKEN, QUERY_DISPATCHER_TOKEN, ValidationError, ErrorMapper } from '@tmasterd/cqrs-core';
 import { CreateNoteCommand, UpdateNoteCommand, DeleteNoteCommand } from './commands';
 import { GetNoteByIdQuery, GetAllNotesQuery } from './queries';
-import { INote } from './domain';
+import { INote, NoteNotFoundError } from './domain';
 import { ILogger, ConsoleLogger } from './service';
 
+// Maps the errors of the note handlers to HTTP failures for tryDispatch(); other errors become 500s
+export const noteErrorMapper: ErrorMapper = (error) => {
+	if (error instanceof NoteNotFoundError) {
+		return ApiResult.notFound(error.message, { noteId: error.noteId });
+	}
+	if (error instanceof ValidationError) {
+		return ApiResult.badRequest('Invalid note.', error.issues);
+	}
+	return undefined;
+};
+
 @Injectable() // Mark this class as injectable so our Tmick container can manage its dependencies
 export class NoteController {
 	constructor(
@@ -20,11 +32,6 @@ export class NoteController {
 	async createNote(req: Request, res: Response): Promise<void> {
 		try {
 			const { title, content } = req.body;
-			if (!title || !content) {
-				res.status(400).json({ error: 'Title and content are required.' });
-				return;
-			}
-
 			this.logger.log(`[HTTP] Received request to create note: "${title}"`);
 			const command = new CreateNoteCommand(title, content);
 			await this.commandDispatcher.dispatch(command);
@@ -36,6 +43,11 @@ export class NoteController {
 
 			res.status(201).json({ message: 'Note created successfully', noteId: newNote?.id, note: newNote });
 		} catch (error: unknown) {
+			// The command is validated by the dispatcher against the rules declared on its properties
+			if (error instanceof ValidationError) {
+				res.status(400).json({ error: 'Invalid note.', issues: error.issues });
+				return;
+			}
 			const errorMessage = error instanceof Error ? error.message : 'Internal server error';
 			this.logger.error(`[HTTP] Error creating note: ${errorMessage}`);
 			res.status(500).json({ error: errorMessage });
@@ -43,54 +55,33 @@ export class NoteController {
 	}
 
 	// Command Handler: Update an existing note
+	// tryDispatch() never throws: errors come back as failures, mapped by noteErrorMapper
 	async updateNote(req: Request, res: Response): Promise<void> {
-		try {
-			const { id } = req.params;
-			const { title, content } = req.body;
-
-			if (!title && !content) {
-				res.status(400).json({ error: 'At least title or content is required for update.' });
-				return;
-			}
-
-			this.logger.log(`[HTTP] Received request to update note ID: ${id}`);
-			const command = new UpdateNoteCommand(id, title, content);
-			await this.commandDispatcher.dispatch(command);
-
-			res.status(200).json({ message: `Note ${id} updated successfully` });
-		} catch (error: unknown) {
-			const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-			this.logger.error(`[HTTP] Error updating note ${req.params.id}: ${errorMessage}`);
-
-			if (errorMessage.includes('Note not found')) {
-				res.status(404).json({ error: errorMessage });
-				return;
-			}
-
-			res.status(500).json({ error: errorMessage || 'Internal server error' });
+		const { id } = req.params;
+		const { title, content } = req.body;
+		this.logger.log(`[HTTP] Received request to update note ID: ${id}`);
+		const result = await this.commandDispatcher.tryDispatch(new UpdateNoteCommand(id, title, content));
+
+		if (ApiResult.isFailure(result)) {
+			this.logger.error(`[HTTP] Error updating note ${id}: ${result.message}`);
+			res.status(result.code).json(result.code === 400 ? { error: result.message, issues: result.errorDetails } : { error: result.message });
+			return;
 		}
+		res.status(200).json({ message: `Note ${id} updated successfully` });
 	}
 
 	// Command Handler: Delete a note
 	async deleteNote(req: Request, res: Response): Promise<void> {
-		try {
-			const { id } = req.params;
-			this.logger.log(`[HTTP] Received request to delete note ID: ${id}`);
-			const command = new DeleteNoteCommand(id);
-			await this.commandDispatcher.dispatch(command);
-
-			res.status(204).send(); // No Content
-		} catch (error: unknown) {
-			const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-			this.logger.error(`[HTTP] Error deleting note ${req.params.id}: ${errorMessage}`);
-
-			if (errorMessage.includes('Note not found')) {
-				res.status(404).json({ error: errorMessage });
-				return;
-			}
-
-			res.status(500).json({ error: errorMessage || 'Internal server error' });
+		const { id } = req.params;
+		this.logger.log(`[HTTP] Received request to delete note ID: ${id}`);
+		const result = await this.commandDispatcher.tryDispatch(new DeleteNoteCommand(id));
+
+		if (ApiResult.isFailure(result)) {
+			this.logger.error(`[HTTP] Error deleting note ${id}: ${result.message}`);
+			res.status(result.code).json({ error: result.message });
+			return;
 		}
+		res.status(204).send(); // No Content
 	}
 
 	// Query Handler: Get all notes
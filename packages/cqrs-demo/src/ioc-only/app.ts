@@ -1,4 +1,4 @@
-import { Tmick, Injectable, Singleton, Transient, Inject, Token, IServiceContainer, ISERVICECONTAINER_TOKEN } from '@tmasterd/cqrs-core';
+import { Tmick, Injectable, Singleton, Transient, Inject, InjectConfig, ConfigSchema } from '@tmasterd/cqrs-core';
 
 import { ILogger, ConsoleLogger } from './service';
 
@@ -42,16 +42,27 @@ class AnalyticsReportingService implements IReportingService {
 	}
 }
 
-// A service that depends on a token for configuration
-const APP_CONFIG_TOKEN = new Token<{ apiUrl: string; version: string }>('AppConfig');
+// A service that depends on a section of the configuration
+interface ApiConfig {
+	apiUrl: string;
+	version: string;
+}
+
+// The declared configuration; DEMO_API__API_URL and DEMO_API__VERSION override the defaults
+const configSchema: ConfigSchema = {
+	api: {
+		apiUrl: { type: 'string', default: 'https://api.example.com' },
+		version: { type: 'string', default: '1.0.0' },
+	},
+};
 
 @Injectable()
 @Singleton()
 class ApiClient {
-	private config: { apiUrl: string; version: string };
+	private config: ApiConfig;
 	constructor(
 		@Inject(ConsoleLogger) private logger: ILogger, // Injects the singleton logger
-		@Inject(APP_CONFIG_TOKEN) config: { apiUrl: string; version: string } // Injects configuration via a Token
+		@InjectConfig('api') config: ApiConfig // Injects the 'api' section of the configuration
 	) {
 		this.config = config;
 		this.logger.log(`ApiClient instance created (Singleton) with API URL: ${this.config.apiUrl}`);
@@ -68,7 +79,8 @@ class ApiClient {
  */
 export async function runIocOnlyExample() {
 	console.log('\n--- IoC Container Only Example ---');
-	const app = new Tmick(); // Instantiate Tmick, which internally sets up the IoC container
+	// Instantiate Tmick, which internally sets up the IoC container and loads the configuration
+	const app = new Tmick({ config: { schema: configSchema, envPrefix: 'DEMO_' } });
 
 	// Auto-scan and registers all decorated services.
 	// This will find ConsoleLogger, SmtpEmailService, AnalyticsReportingService, and ApiClient
@@ -76,13 +88,9 @@ export async function runIocOnlyExample() {
 	app.autoScanAndRegisters();
 
 	// Although we are not using CQRS dispatchers directly, calling initialize()
-	// sets the framework's internal 'initialized' flag, which is good practice.
+	// checks the configuration against its schema and sets the framework's internal 'initialized' flag.
 	app.initialize();
 
-	// Manually register some values/configs into the container.
-	// We access the underlying IServiceContainer via Tmick's get method, using its token.
-	app.get<IServiceContainer>(ISERVICECONTAINER_TOKEN).registerValue(APP_CONFIG_TOKEN, { apiUrl: 'https://api.example.com', version: '1.0.0' });
-
 	console.log('\n--- Debug Info After Auto-Registration ---');
 	const debugInfo = app.getDebugInfo();
 	console.log('Debug Info:', {
@@ -119,11 +127,11 @@ export async function runIocOnlyExample() {
 		{ id: 2, name: 'Item B' },
 	]);
 
-	// Resolve ApiClient (Singleton, depends on Logger and APP_CONFIG_TOKEN)
-	// Demonstrates injecting a value registered via a Token.
+	// Resolve ApiClient (Singleton, depends on Logger and the 'api' configuration section)
+	// Demonstrates injecting a section of the configuration.
 	const apiClient = app.get<ApiClient>(ApiClient);
 	apiClient.fetchData('/users');
 
 	console.log('\n--- IoC Only Example Complete ---');
-	app.dispose(); // Cleans up the container and resets internal state
+	await app.dispose(); // Cleans up the container and resets internal state
 }